@@ -1,5 +1,7 @@
-import { Token } from '../parsing/lexer';
+import type { Token } from '../parsing/lexer';
+import type { SourceSpan } from '../parsing/ast';
 import type { Dict, SourceLocationPointer } from './types';
+import { Diagnostic, DiagnosticCode, DiagnosticDetails } from '../diagnostics/diagnostic';
 
 
 export class Exception extends Error {
@@ -32,21 +34,38 @@ export class UnrecognizedTokenError extends Exception {
   public readonly position?: number;
   public readonly filename?: string;
   public readonly token: string;
+  public readonly diagnostic: Diagnostic;
 
   constructor(token: string, location?: SourceLocationPointer) {
-    let msg = `Unrecognized character found in source \`${token}\``;
+    const message = `Unrecognized character found in source \`${token}\``;
+    super(_at(message, location));
 
-    if(!!location && location.line && location.column) {
-      msg += ` at line ${location.line}, column ${location.column}`;
-    }
+    this.token = token;
+    this.column = location?.column;
+    this.line = location?.line;
+    this.filename = location?.filename;
+    this.position = location?.position;
+    this.diagnostic = _diagnostic(message, { code: DiagnosticCode.UnrecognizedCharacter }, location && _pointAt(location));
+  }
+}
 
-    super(msg);
+export class LexerError extends Exception {
+  public readonly name = 'LexerError' as const;
+
+  public readonly line?: number;
+  public readonly column?: number;
+  public readonly position?: number;
+  public readonly filename?: string;
+  public readonly diagnostic: Diagnostic;
+
+  constructor(message: string, location: SourceLocationPointer | undefined, details: DiagnosticDetails) {
+    super(_at(message, location));
 
-    this.token = token;
     this.column = location?.column;
     this.line = location?.line;
     this.filename = location?.filename;
     this.position = location?.position;
+    this.diagnostic = _diagnostic(message, details, location && _pointAt(location));
   }
 }
 
@@ -58,29 +77,148 @@ export class UnexpectedTokenError extends Exception {
   public readonly position?: number;
   public readonly filename?: string;
   public readonly token: string;
+  public readonly diagnostic: Diagnostic;
+
+  /**
+   * @param description - What the token is, e.g. "keyword \`let\`" or "end of input".
+   * @param token - The token that can't appear where it was found.
+   */
+  constructor(description: string, token: Token) {
+    const location = token.locationInSource;
+    const message = `Unexpected ${description}`;
+
+    super(_at(message, location));
+
+    this.token = token.value;
+    this.column = location.column;
+    this.line = location.line;
+    this.filename = location.filename;
+    this.position = location.position;
+    this.diagnostic = _diagnostic(message, { code: DiagnosticCode.UnexpectedToken }, _spanOf(token));
+  }
+}
+
+export class ParserError extends Exception {
+  public readonly name = 'ParserError' as const;
+
+  public readonly line: number;
+  public readonly column: number;
+  public readonly position: number;
+  public readonly filename?: string;
+  public readonly diagnostic: Diagnostic;
+
+  constructor(message: string, token: Token, details: DiagnosticDetails) {
+    const location = token.locationInSource;
+    super(`Parser error: ${message} for token \`${token.value}\` at line ${location.line}, column ${location.column}`);
+
+    this.column = location.column;
+    this.line = location.line;
+    this.filename = location.filename;
+    this.position = location.position;
+    this.diagnostic = _diagnostic(message, details, _spanOf(token));
+  }
+}
+
+/**
+ * Raised while evaluating a program. Errors that are raised away from the syntax tree,
+ * like by a variable lookup, are located by the interpreter at the node it was evaluating.
+ */
+export class RuntimeError extends Exception {
+  public readonly name: string = 'RuntimeError';
+
+  public line?: number;
+  public column?: number;
+  public position?: number;
+  public filename?: string;
+  public readonly diagnostic: Diagnostic;
+
+  constructor(message: string, span?: SourceSpan, details: DiagnosticDetails = { code: DiagnosticCode.RuntimeError }) {
+    super(message);
 
-  constructor(tokenType: number, token: string, location?: SourceLocationPointer) {
-    let msg = `Unexpected token (${tokenType}) \`${token}\``;
+    this.diagnostic = _diagnostic(message, details);
 
-    if(!!location && location.line && location.column) {
-      msg += ` at line ${location.line}, column ${location.column}`;
+    if(span) {
+      this.locate(span);
     }
+  }
 
-    super(msg);
+  /**
+   * Records where the error happened, unless it is already known.
+   */
+  public locate(span: SourceSpan): this {
+    if(this.diagnostic.span) return this;
 
-    this.token = token;
-    this.column = location?.column;
-    this.line = location?.line;
-    this.filename = location?.filename;
-    this.position = location?.position;
+    this.column = span.start.column;
+    this.line = span.start.line;
+    this.filename = span.filename;
+    this.position = span.start.offset;
+    this.diagnostic.span = span;
+
+    // `message` is only read-only to keep callers from changing it
+    (this as { message: string }).message = _at(this.diagnostic.message, span.start);
+
+    return this;
   }
 }
 
-export class ParserError extends Exception {
-  public readonly name = 'ParserError' as const;
+export class RuntimeTypeError extends RuntimeError {
+  public readonly name = 'TypeError' as const;
 
-  constructor(message: string, token: Token, ctx?: Dict<any>) {
-    super(`Parser error: ${message} for token in position ${token.locationInSource.position} (${token.type}, \`${token.value}\`) at line ${token.locationInSource.line}, column ${token.locationInSource.column}`,
-      ctx);
+  constructor(message: string, span?: SourceSpan) {
+    super(message, span, { code: DiagnosticCode.TypeMismatch });
   }
 }
+
+export class RuntimeReferenceError extends RuntimeError {
+  public readonly name = 'ReferenceError' as const;
+
+  constructor(message: string, span?: SourceSpan) {
+    super(message, span, { code: DiagnosticCode.UndefinedReference });
+  }
+}
+
+export class ArithmeticError extends RuntimeError {
+  public readonly name = 'ArithmeticError' as const;
+
+  constructor(message: string, span: SourceSpan | undefined, details: DiagnosticDetails) {
+    super(message, span, details);
+  }
+}
+
+
+function _at(message: string, location?: Pick<SourceLocationPointer, 'line' | 'column'>): string {
+  if(!location || !location.line || !location.column) return message;
+  return `${message} at line ${location.line}, column ${location.column}`;
+}
+
+function _spanOf(token: Token): SourceSpan {
+  const { locationInSource: start, endInSource: end } = token;
+
+  return {
+    start: { line: start.line, column: start.column, offset: start.position },
+    end: { line: end.line, column: end.column, offset: end.position },
+    filename: start.filename,
+  };
+}
+
+// The lexer only knows where a problem starts, so its errors cover a single character
+function _pointAt(location: SourceLocationPointer): SourceSpan {
+  const offset = location.position ?? 0;
+
+  return {
+    start: { line: location.line, column: location.column, offset },
+    end: { line: location.line, column: location.column + 1, offset: offset + 1 },
+    filename: location.filename,
+  };
+}
+
+function _diagnostic(message: string, details: DiagnosticDetails, span?: SourceSpan): Diagnostic {
+  return {
+    code: details.code,
+    severity: 'error',
+    message,
+    span,
+    notes: details.notes ?? [],
+    fixes: details.fixes ?? [],
+  };
+}
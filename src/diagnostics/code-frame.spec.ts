@@ -0,0 +1,118 @@
+import { renderDiagnostic } from './code-frame';
+import { Diagnostic, DiagnosticCode } from './diagnostic';
+
+
+function diagnostic(overrides: Partial<Diagnostic> = {}): Diagnostic {
+  return {
+    code: DiagnosticCode.ExpectedToken,
+    severity: 'error',
+    message: 'Expected a semicolon',
+    notes: [],
+    fixes: [],
+    ...overrides,
+  };
+}
+
+function span(start: [number, number], end: [number, number], filename?: string): Diagnostic['span'] {
+  return {
+    start: { line: start[0], column: start[1], offset: 0 },
+    end: { line: end[0], column: end[1], offset: 0 },
+    filename,
+  };
+}
+
+
+describe('diagnostics/code-frame', () => {
+  test('it should quote the lines around the span with carets under it', () => {
+    const source = 'let a = 1;\nlet b = foo bar;\nlet c = 3;\nlet d = 4;';
+
+    expect(renderDiagnostic(diagnostic({ span: span([2, 9], [2, 12], 'main.pg') }), source)).toBe([
+      'error[P0001]: Expected a semicolon',
+      ' --> main.pg:2:9',
+      '  |',
+      '1 | let a = 1;',
+      '2 | let b = foo bar;',
+      '  |         ^^^',
+      '3 | let c = 3;',
+    ].join('\n'));
+  });
+
+  test('it should leave out the filename when there is none', () => {
+    expect(renderDiagnostic(diagnostic({ span: span([1, 5], [1, 6]) }), 'let x', { contextLines: 0 })).toBe([
+      'error[P0001]: Expected a semicolon',
+      ' --> 1:5',
+      '  |',
+      '1 | let x',
+      '  |     ^',
+    ].join('\n'));
+  });
+
+  test('it should underline every line of a multi-line span', () => {
+    const source = 'if a {\n  print(a);\n}';
+
+    expect(renderDiagnostic(diagnostic({ span: span([1, 6], [3, 2]) }), source, { contextLines: 0 })).toBe([
+      'error[P0001]: Expected a semicolon',
+      ' --> 1:6',
+      '  |',
+      '1 | if a {',
+      '  |      ^',
+      '2 |   print(a);',
+      '  |   ^^^^^^^^^',
+      '3 | }',
+      '  | ^',
+    ].join('\n'));
+  });
+
+  test('it should line carets up with tab-indented and CRLF sources', () => {
+    const frame = renderDiagnostic(diagnostic({ span: span([2, 6], [2, 7]) }), 'a\r\n\tb c\r\n', { contextLines: 0 });
+
+    expect(frame.split('\n').slice(3)).toEqual([
+      '2 |     b c',
+      '  |      ^',
+    ]);
+  });
+
+  test('it should widen the gutter for longer line numbers', () => {
+    const source = Array.from({ length: 10 }, (_, i) => `line${i + 1}`).join('\n');
+    const frame = renderDiagnostic(diagnostic({ span: span([9, 1], [9, 6]) }), source);
+
+    expect(frame.split('\n').slice(1)).toEqual([
+      '  --> 9:1',
+      '   |',
+      ' 8 | line8',
+      ' 9 | line9',
+      '   | ^^^^^',
+      '10 | line10',
+    ]);
+  });
+
+  test('it should list notes and fixes after the frame', () => {
+    const frame = renderDiagnostic(diagnostic({
+      span: span([1, 10], [1, 10]),
+      notes: ['Statements end with a semicolon'],
+      fixes: [{ message: 'Insert `;`', span: span([1, 10], [1, 10])!, replacement: ';' }],
+    }), 'let a = 1', { contextLines: 0 });
+
+    expect(frame.split('\n').slice(3)).toEqual([
+      '1 | let a = 1',
+      '  |          ^',
+      '  = note: Statements end with a semicolon',
+      '  = help: Insert `;`',
+    ]);
+  });
+
+  test('it should render a diagnostic without a span as its message', () => {
+    expect(renderDiagnostic(diagnostic({ code: DiagnosticCode.RuntimeError, message: 'boom', notes: ['It broke'] }), '')).toBe([
+      'error[R0001]: boom',
+      '  = note: It broke',
+    ].join('\n'));
+  });
+
+  test('it should only color the output when asked to', () => {
+    const d = diagnostic({ span: span([1, 1], [1, 2]) });
+
+    expect(renderDiagnostic(d, 'x')).not.toContain('\x1b[');
+    expect(renderDiagnostic(d, 'x', { colors: true })).toContain('\x1b[1m\x1b[31merror[P0001]\x1b[0m');
+    expect(renderDiagnostic({ ...d, severity: 'warning' }, 'x', { colors: true })).toContain('\x1b[33m^\x1b[0m');
+  });
+});
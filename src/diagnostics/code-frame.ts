@@ -0,0 +1,107 @@
+import { tabWidth } from '../parsing/lexer';
+import type { Diagnostic, DiagnosticSeverity } from './diagnostic';
+
+
+export interface RenderOptions {
+  /** Whether to color the output with ANSI escape codes */
+  colors?: boolean;
+
+  /** How many lines to quote before and after the span, 1 by default */
+  contextLines?: number;
+}
+
+
+const styles = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+} as const;
+
+const severityStyles: { readonly [S in DiagnosticSeverity]: string } = {
+  error: styles.red,
+  warning: styles.yellow,
+  note: styles.cyan,
+};
+
+
+/**
+ * Formats a diagnostic for a terminal. When it has a span, the lines of `source`
+ * around it are quoted with carets under the span, followed by its notes and fixes:
+ *
+ * ```
+ * error[P0001]: Expected a semicolon after the variable declaration
+ *  --> main.pg:1:10
+ *   |
+ * 1 | let a = 1
+ *   |          ^
+ *   = help: Insert `;`
+ * ```
+ */
+export function renderDiagnostic(diagnostic: Diagnostic, source: string, options: RenderOptions = {}): string {
+  const paint = (text: string, ...codes: string[]) => options.colors ? `${codes.join('')}${text}${styles.reset}` : text;
+  const severityStyle = severityStyles[diagnostic.severity];
+  const { span } = diagnostic;
+
+  const output = [
+    paint(`${diagnostic.severity}[${diagnostic.code}]`, styles.bold, severityStyle) + paint(`: ${diagnostic.message}`, styles.bold),
+  ];
+
+  let gutter = ' ';
+
+  if(span) {
+    const lines = source.split(/\r\n|\r|\n/);
+    const contextLines = options.contextLines ?? 1;
+    const first = Math.max(1, span.start.line - contextLines);
+    const last = Math.min(lines.length, span.end.line + contextLines);
+    const bar = paint('|', styles.blue);
+
+    gutter = ' '.repeat(String(last).length);
+
+    const location = [span.filename, span.start.line, span.start.column].filter(part => part !== undefined).join(':');
+
+    output.push(`${gutter}${paint('-->', styles.blue)} ${location}`);
+    output.push(`${gutter} ${bar}`);
+
+    for(let n = first; n <= last; n++) {
+      const text = _expandTabs(lines[n - 1]).trimEnd();
+      output.push(`${paint(String(n).padStart(gutter.length), styles.blue)} ${bar}${text ? ` ${text}` : ''}`);
+
+      if(n < span.start.line || n > span.end.line) continue;
+
+      // Lines in the middle of a span are underlined from their first non-blank character
+      const from = n === span.start.line ? span.start.column : text.length - text.trimStart().length + 1;
+      const to = n === span.end.line ? span.end.column : Array.from(text).length + 1;
+
+      output.push(`${gutter} ${bar} ${' '.repeat(from - 1)}${paint('^'.repeat(Math.max(1, to - from)), styles.bold, severityStyle)}`);
+    }
+  }
+
+  for(const note of diagnostic.notes) {
+    output.push(`${gutter} ${paint('=', styles.blue)} ${paint('note', styles.bold)}: ${note}`);
+  }
+
+  for(const fix of diagnostic.fixes) {
+    output.push(`${gutter} ${paint('=', styles.blue)} ${paint('help', styles.bold)}: ${fix.message}`);
+  }
+
+  return output.join('\n');
+}
+
+
+// Expands tabs to the tab stops the lexer counts columns with
+function _expandTabs(line: string): string {
+  let expanded = '';
+  let column = 0;
+
+  for(const c of line) {
+    const width = c === '\t' ? tabWidth - column % tabWidth : 1;
+
+    expanded += c === '\t' ? ' '.repeat(width) : c;
+    column += width;
+  }
+
+  return expanded;
+}
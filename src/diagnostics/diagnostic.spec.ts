@@ -0,0 +1,100 @@
+import Parser from '../parsing/parser';
+import { evaluate } from '../runtime/interpreter';
+import { createGlobalEnvironment } from '../runtime/env';
+import { Diagnostic, DiagnosticCode, toDiagnostic } from './diagnostic';
+
+
+function diagnose(source: string): Diagnostic {
+  try {
+    evaluate(new Parser(source).parse(), createGlobalEnvironment());
+  } catch (err) {
+    return toDiagnostic(err);
+  }
+
+  throw new Error(`Expected \`${source}\` to fail`);
+}
+
+
+describe('diagnostics/diagnostic', () => {
+  test('it should point lexer errors at a single character', () => {
+    expect(diagnose('let a = 1 # 2;')).toMatchObject({
+      code: DiagnosticCode.UnrecognizedCharacter,
+      severity: 'error',
+      message: 'Unrecognized character found in source `#`',
+      span: { start: { line: 1, column: 11, offset: 10 }, end: { line: 1, column: 12, offset: 11 } },
+    });
+
+    expect(diagnose('let s = "open\n;').code).toBe(DiagnosticCode.UnterminatedString);
+    expect(diagnose('`${').code).toBe(DiagnosticCode.UnterminatedTemplate);
+    expect(diagnose('/* open').code).toBe(DiagnosticCode.UnterminatedComment);
+    expect(diagnose('"\\q"').code).toBe(DiagnosticCode.InvalidEscapeSequence);
+    expect(diagnose('"\\u{110000}"').message).toBe('Invalid unicode escape sequence `\\u{110000}`');
+  });
+
+  test('it should span the token a parser error is about', () => {
+    expect(diagnose('func f(a, b, a) { }')).toMatchObject({
+      code: DiagnosticCode.DuplicateParameter,
+      message: 'Duplicate parameter name \'a\'',
+      span: { start: { column: 14 }, end: { column: 15 } },
+    });
+
+    expect(diagnose('while true { func f() { continue; } }').code).toBe(DiagnosticCode.JumpOutsideLoop);
+    expect(diagnose('return 1;').code).toBe(DiagnosticCode.ReturnOutsideFunction);
+    expect(diagnose('const a;\nlet b = 1;')).toMatchObject({
+      code: DiagnosticCode.MissingConstantInitializer,
+      span: { start: { line: 1, column: 7 }, end: { line: 1, column: 8 } },
+    });
+    expect(diagnose('try { }').code).toBe(DiagnosticCode.MissingCatchOrFinally);
+  });
+
+  test('it should name unexpected tokens instead of printing their type', () => {
+    const diagnostic = diagnose('let a = let;');
+
+    expect(diagnostic).toMatchObject({ code: DiagnosticCode.UnexpectedToken, message: 'Unexpected keyword `let`' });
+    expect(() => new Parser('let a = let;').parse()).toThrow('Unexpected keyword `let` at line 1, column 9');
+    expect(diagnose('let a = ;').message).toBe('Unexpected token `;`');
+    expect(diagnose('let a = 1 +').message).toBe('Unexpected end of input');
+  });
+
+  test('it should suggest inserting a missing closing token', () => {
+    const diagnostic = diagnose('let a = (1 + 2;');
+
+    expect(diagnostic.code).toBe(DiagnosticCode.ExpectedToken);
+    expect(diagnostic.fixes).toEqual([{
+      message: 'Insert `)`',
+      span: { start: { line: 1, column: 15, offset: 14 }, end: { line: 1, column: 15, offset: 14 } },
+      replacement: ')',
+    }]);
+
+    expect(diagnose('let a = 1 let b = 2;').fixes.map(fix => fix.replacement)).toEqual([';']);
+    expect(diagnose('if true then 1').fixes).toEqual([]);
+  });
+
+  test('it should span the operation that failed at runtime', () => {
+    expect(diagnose('let a = 1;\nlet b = a / 0;')).toMatchObject({
+      code: DiagnosticCode.DivisionByZero,
+      message: 'Division by zero',
+      span: { start: { line: 2, column: 9 }, end: { line: 2, column: 14 } },
+    });
+  });
+
+  test('it should span the node that raised a runtime error', () => {
+    expect(diagnose('let a = 1;\nprint(undefinedVariable);')).toMatchObject({
+      code: DiagnosticCode.UndefinedReference,
+      message: 'Undefined variable \'undefinedVariable\'',
+      span: { start: { line: 2, column: 7 }, end: { line: 2, column: 24 } },
+    });
+
+    expect(diagnose('let a = 1;\nlet b = (a + "x") * 2;')).toMatchObject({
+      code: DiagnosticCode.TypeMismatch,
+      span: { start: { line: 2, column: 9 }, end: { line: 2, column: 18 } },
+    });
+
+    expect(diagnose('let n = 1; n();')).toMatchObject({ code: DiagnosticCode.TypeMismatch, span: { start: { column: 12 }, end: { column: 15 } } });
+  });
+
+  test('it should report other errors as generic runtime errors', () => {
+    expect(diagnose('let a = [1]; a[5];')).toMatchObject({ code: DiagnosticCode.RuntimeError, notes: [], fixes: [] });
+    expect(toDiagnostic('not even an error')).toMatchObject({ code: DiagnosticCode.RuntimeError, message: 'not even an error' });
+  });
+});
@@ -0,0 +1,84 @@
+import type { SourceSpan } from '../parsing/ast';
+
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'note';
+
+/**
+ * Identifies each kind of problem the language reports. Codes are stable:
+ * a code is never renumbered or reused, new problems get new codes.
+ *
+ * `L` codes come from the lexer, `P` codes from the parser and `R` codes from the runtime.
+ */
+export const enum DiagnosticCode {
+  UnrecognizedCharacter = 'L0001',
+  UnterminatedString = 'L0002',
+  UnterminatedTemplate = 'L0003',
+  UnterminatedComment = 'L0004',
+  InvalidEscapeSequence = 'L0005',
+
+  ExpectedToken = 'P0001',
+  UnexpectedToken = 'P0002',
+  JumpOutsideLoop = 'P0003',
+  ReturnOutsideFunction = 'P0004',
+  DuplicateParameter = 'P0005',
+  MissingThrowArgument = 'P0006',
+  MissingCatchOrFinally = 'P0007',
+  MissingConstantInitializer = 'P0008',
+  InvalidMemberAccess = 'P0009',
+
+  RuntimeError = 'R0001',
+  DivisionByZero = 'R0002',
+  NonFiniteResult = 'R0003',
+  UndefinedReference = 'R0004',
+  TypeMismatch = 'R0005',
+  IntegerOverflow = 'R0006',
+}
+
+export interface DiagnosticFix {
+  /** Describes the edit, e.g. "Insert `;`" */
+  message: string;
+
+  /** The source to replace, which is empty for an insertion */
+  span: SourceSpan;
+
+  replacement: string;
+}
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  span?: SourceSpan;
+  notes: string[];
+  fixes: DiagnosticFix[];
+}
+
+/**
+ * What the place raising an error knows about it beyond its message.
+ */
+export interface DiagnosticDetails {
+  code: DiagnosticCode;
+  notes?: string[];
+  fixes?: DiagnosticFix[];
+}
+
+
+/**
+ * Builds the diagnostic for anything thrown while lexing, parsing or evaluating a program.
+ * Errors that don't carry a diagnostic of their own are reported as a generic runtime error.
+ */
+export function toDiagnostic(err: unknown): Diagnostic {
+  if(err instanceof Error && 'diagnostic' in err && _isDiagnostic(err.diagnostic)) return err.diagnostic;
+
+  return {
+    code: DiagnosticCode.RuntimeError,
+    severity: 'error',
+    message: err instanceof Error ? err.message : String(err),
+    notes: [],
+    fixes: [],
+  };
+}
+
+function _isDiagnostic(value: unknown): value is Diagnostic {
+  return typeof value === 'object' && !!value && 'code' in value && 'message' in value;
+}
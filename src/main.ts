@@ -3,6 +3,8 @@ import { createInterface } from 'node:readline';
 import Parser from './parsing/parser';
 import { evaluate } from './runtime/interpreter';
 import { createGlobalEnvironment } from './runtime/env';
+import { renderDiagnostic } from './diagnostics/code-frame';
+import { Diagnostic, toDiagnostic } from './diagnostics/diagnostic';
 
 
 async function _main() {
@@ -28,18 +30,27 @@ async function _main() {
       }
 
       if(input === 'clear') return question(true);
-      const parser = new Parser(input);
-      
+
+      const report = (diagnostic: Diagnostic) => {
+        console.log('\n'.concat(renderDiagnostic(diagnostic, input, { colors: process.stdout.isTTY })), '\n');
+      };
+
       try {
-        const ast = parser.parse();
-        const result = evaluate(ast, e);
+        const { program, diagnostics } = new Parser(input).parseWithRecovery();
+
+        if(diagnostics.length > 0) {
+          diagnostics.forEach(report);
+          return question();
+        }
 
-        console.log(ast, result);
+        const result = evaluate(program, e);
+
+        console.log(program, result);
 
         question();
       } catch (err: any) {
-        console.log('\n\n'.concat(err.message), '\n');
-        process.exit(1);
+        report(toDiagnostic(err));
+        question();
       }
     });
   };
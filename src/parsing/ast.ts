@@ -3,7 +3,9 @@ export type NodeType =
   | 'IntegerLiteral'
   | 'DecimalLiteral'
   | 'BinaryExpression'
+  | 'LogicalExpression'
   | 'StringLiteral'
+  | 'TemplateLiteral'
   | 'Identifier'
   | 'Symbol'
   | 'CallExpression'
@@ -14,12 +16,44 @@ export type NodeType =
   | 'AssignmentExpression'
   | 'Property'
   | 'ObjectLiteral'
+  | 'ArrayLiteral'
   | 'MemberExpression'
-  | 'CallExpression';
+  | 'CallExpression'
+  | 'BlockStatement'
+  | 'IfStatement'
+  | 'WhileStatement'
+  | 'DoWhileStatement'
+  | 'ForStatement'
+  | 'BreakStatement'
+  | 'ContinueStatement'
+  | 'ReturnStatement'
+  | 'ThrowStatement'
+  | 'TryStatement'
+  | 'CatchClause'
+  | 'FunctionExpression'
+  | 'ArrowFunctionExpression'
+  | 'Error';
+
 
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+/**
+ * The region of the source a node was parsed from, from the start
+ * of its first token to the end of its last one.
+ */
+export interface SourceSpan {
+  start: SourcePosition;
+  end: SourcePosition;
+  filename?: string;
+}
 
 export interface Statement {
   kind: NodeType;
+  span: SourceSpan;
 }
 
 export interface Program extends Statement {
@@ -29,6 +63,99 @@ export interface Program extends Statement {
 
 export interface Expression extends Statement {}
 
+/**
+ * Stands in for a statement the parser could not make sense of
+ * when recovering from errors, spanning the tokens it skipped.
+ */
+export interface ErrorNode extends Statement {
+  kind: 'Error';
+  message: string;
+}
+
+export interface BlockStatement extends Statement {
+  kind: 'BlockStatement';
+  body: Statement[];
+}
+
+export interface IfStatement extends Statement {
+  kind: 'IfStatement';
+  test: Expression;
+  consequent: BlockStatement;
+  alternate?: BlockStatement | IfStatement;
+}
+
+export interface WhileStatement extends Statement {
+  kind: 'WhileStatement';
+  test: Expression;
+  body: BlockStatement;
+}
+
+export interface DoWhileStatement extends Statement {
+  kind: 'DoWhileStatement';
+  body: BlockStatement;
+  test: Expression;
+}
+
+export interface ForStatement extends Statement {
+  kind: 'ForStatement';
+  init?: Statement;
+  test?: Expression;
+  update?: Expression;
+  body: BlockStatement;
+}
+
+export interface BreakStatement extends Statement {
+  kind: 'BreakStatement';
+}
+
+export interface ContinueStatement extends Statement {
+  kind: 'ContinueStatement';
+}
+
+export interface FunctionDeclaration extends Statement {
+  kind: 'FunctionDeclaration';
+  name: string;
+  parameters: string[];
+  body: BlockStatement;
+  docComment?: string;
+}
+
+export interface FunctionExpression extends Expression {
+  kind: 'FunctionExpression';
+  name?: string;
+  parameters: string[];
+  body: BlockStatement;
+}
+
+export interface ArrowFunctionExpression extends Expression {
+  kind: 'ArrowFunctionExpression';
+  parameters: string[];
+  body: BlockStatement | Expression;
+}
+
+export interface ReturnStatement extends Statement {
+  kind: 'ReturnStatement';
+  value?: Expression;
+}
+
+export interface ThrowStatement extends Statement {
+  kind: 'ThrowStatement';
+  argument: Expression;
+}
+
+export interface CatchClause extends Statement {
+  kind: 'CatchClause';
+  parameter?: string;
+  body: BlockStatement;
+}
+
+export interface TryStatement extends Statement {
+  kind: 'TryStatement';
+  block: BlockStatement;
+  handler?: CatchClause;
+  finalizer?: BlockStatement;
+}
+
 export interface BinaryExpression extends Expression {
   kind: 'BinaryExpression';
   operator: string;
@@ -36,6 +163,19 @@ export interface BinaryExpression extends Expression {
   right: Expression;
 }
 
+export interface LogicalExpression extends Expression {
+  kind: 'LogicalExpression';
+  operator: '&&' | '||';
+  left: Expression;
+  right: Expression;
+}
+
+export interface UnaryExpression extends Expression {
+  kind: 'UnaryExpression';
+  operator: string;
+  argument: Expression;
+}
+
 export interface Identifier extends Expression {
   kind: 'Identifier';
   symbol: string;
@@ -48,7 +188,7 @@ export interface Symbol extends Expression {
 
 export interface IntegerLiteral extends Expression {
   kind: 'IntegerLiteral';
-  value: number;
+  value: number | bigint;
 }
 
 export interface DecimalLiteral extends Expression {
@@ -66,6 +206,7 @@ export interface VariableDeclaration extends Statement {
   constant: boolean;
   varname: string;
   value?: Expression;
+  docComment?: string;
 }
 
 export interface StringLiteral extends Expression {
@@ -73,6 +214,12 @@ export interface StringLiteral extends Expression {
   value: string;
 }
 
+export interface TemplateLiteral extends Expression {
+  kind: 'TemplateLiteral';
+  quasis: string[];
+  expressions: Expression[];
+}
+
 export interface AssignmentExpression extends Expression {
   kind: 'AssignmentExpression';
   target: Expression;
@@ -90,6 +237,11 @@ export interface ObjectLiteral extends Expression {
   properties: Property[];
 }
 
+export interface ArrayLiteral extends Expression {
+  kind: 'ArrayLiteral';
+  elements: Expression[];
+}
+
 export interface CallExpression extends Expression {
   kind: 'CallExpression';
   arguments: Expression[];
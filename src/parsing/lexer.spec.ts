@@ -0,0 +1,250 @@
+import { Lexer, Token, TokenType } from './lexer';
+
+
+function tokenize(source: string): Token[] {
+  return new Lexer(source).tokenize();
+}
+
+function positions(source: string): [string, number, number, number, number][] {
+  return tokenize(source).map(({ value, locationInSource: start, endInSource: end }) =>
+    [value, start.line, start.column, end.line, end.column]);
+}
+
+function firstToken(source: string): Pick<Token, 'type' | 'value'> {
+  const { type, value } = tokenize(source)[0];
+  return { type, value };
+}
+
+
+describe('parsing/lexer', () => {
+  test('it should lex decimal integers and floats', () => {
+    expect(firstToken('42')).toEqual({ type: TokenType.Integer, value: '42' });
+    expect(firstToken('3.14')).toEqual({ type: TokenType.Decimal, value: '3.14' });
+    expect(firstToken('0')).toEqual({ type: TokenType.Integer, value: '0' });
+  });
+
+  test('it should lex hex, binary and octal integers', () => {
+    expect(firstToken('0xFF')).toEqual({ type: TokenType.Integer, value: '0xFF' });
+    expect(firstToken('0XfF')).toEqual({ type: TokenType.Integer, value: '0xfF' });
+    expect(firstToken('0b1010')).toEqual({ type: TokenType.Integer, value: '0b1010' });
+    expect(firstToken('0o17')).toEqual({ type: TokenType.Integer, value: '0o17' });
+  });
+
+  test('it should lex scientific notation as decimals', () => {
+    expect(firstToken('1.5e-3')).toEqual({ type: TokenType.Decimal, value: '1.5e-3' });
+    expect(firstToken('6.022E+23')).toEqual({ type: TokenType.Decimal, value: '6.022e+23' });
+    expect(firstToken('1e9')).toEqual({ type: TokenType.Decimal, value: '1e9' });
+  });
+
+  test('it should drop digit separators', () => {
+    expect(firstToken('1_000_000')).toEqual({ type: TokenType.Integer, value: '1000000' });
+    expect(firstToken('0xFF_FF')).toEqual({ type: TokenType.Integer, value: '0xFFFF' });
+    expect(firstToken('3.141_592')).toEqual({ type: TokenType.Decimal, value: '3.141592' });
+  });
+
+  test('it should leave a dot that is not followed by a digit to member access', () => {
+    expect(tokenize('1.foo').map(t => t.type)).toEqual([TokenType.Integer, TokenType.Dot, TokenType.Identifier, TokenType.EOF]);
+  });
+
+  test('it should reject malformed numeric literals', () => {
+    expect(() => tokenize('1.2.3')).toThrow('Unrecognized character found in source `.`');
+    expect(() => tokenize('1.2.3')).toThrow(expect.objectContaining({ name: 'UnrecognizedTokenError', position: 3 }));
+    expect(() => tokenize('0b102')).toThrow(expect.objectContaining({ token: '2', position: 4 }));
+    expect(() => tokenize('0xZ')).toThrow(expect.objectContaining({ token: 'Z', position: 2 }));
+    expect(() => tokenize('1__0')).toThrow(expect.objectContaining({ token: '_', position: 1 }));
+    expect(() => tokenize('10_')).toThrow(expect.objectContaining({ token: '_', position: 2 }));
+    expect(() => tokenize('1e')).toThrow(expect.objectContaining({ token: 'e', position: 1 }));
+    expect(() => tokenize('12abc')).toThrow(expect.objectContaining({ token: 'a', position: 2 }));
+  });
+
+  test('it should lex the names of object prototype members as identifiers', () => {
+    for(const name of ['toString', 'constructor', 'valueOf', 'hasOwnProperty', '__proto__', 'isPrototypeOf']) {
+      expect(firstToken(name)).toEqual({ type: TokenType.Identifier, value: name });
+    }
+  });
+
+  test('it should lex identifiers with digits, underscores and dollar signs', () => {
+    for(const name of ['v2', 'max_iter', '_private', '__add', '$', '$el', 'a$b', 'x1y2']) {
+      expect(firstToken(name)).toEqual({ type: TokenType.Identifier, value: name });
+    }
+  });
+
+  test('it should allow digits after the first character of an identifier', () => {
+    expect(tokenize('vec2d x1+1 a1.b2').map(t => [t.type, t.value])).toEqual([
+      [TokenType.Identifier, 'vec2d'],
+      [TokenType.Identifier, 'x1'],
+      [TokenType.BinaryOperator, '+'],
+      [TokenType.Integer, '1'],
+      [TokenType.Identifier, 'a1'],
+      [TokenType.Dot, '.'],
+      [TokenType.Identifier, 'b2'],
+      [TokenType.EOF, 'EOF'],
+    ]);
+
+    expect(() => tokenize('2d')).toThrow('Unrecognized character found in source `d`');
+  });
+
+  test('it should allow underscores anywhere in an identifier', () => {
+    for(const name of ['_', '__', '_1', 'a_', 'snake_case_name']) {
+      expect(firstToken(name)).toEqual({ type: TokenType.Identifier, value: name });
+    }
+
+    expect(tokenize('_ + 1_000').map(t => [t.type, t.value])).toEqual([
+      [TokenType.Identifier, '_'],
+      [TokenType.BinaryOperator, '+'],
+      [TokenType.Integer, '1000'],
+      [TokenType.EOF, 'EOF'],
+    ]);
+  });
+
+  test('it should lex identifiers following the Unicode rules', () => {
+    for(const name of ['θ', 'über', 'ñandú', 'λx', 'café', 'δ_1', '变量', '𝑥', 'x𝑦z']) {
+      expect(firstToken(name)).toEqual({ type: TokenType.Identifier, value: name });
+    }
+
+    expect(tokenize('𝑥 + 𝑦').map(t => t.value)).toEqual(['𝑥', '+', '𝑦', 'EOF']);
+  });
+
+  test('it should still look up keywords', () => {
+    expect(firstToken('let')).toEqual({ type: TokenType.Let, value: 'let' });
+    expect(firstToken('letter')).toEqual({ type: TokenType.Identifier, value: 'letter' });
+    expect(firstToken('return_value')).toEqual({ type: TokenType.Identifier, value: 'return_value' });
+  });
+
+  test('it should reject characters that cannot start an identifier', () => {
+    expect(() => tokenize('€')).toThrow('Unrecognized character found in source `€`');
+    expect(() => tokenize('😀')).toThrow('Unrecognized character found in source `😀`');
+  });
+
+  test('it should skip block comments', () => {
+    expect(tokenize('1 /* a comment */ + 2').map(t => t.value)).toEqual(['1', '+', '2', 'EOF']);
+    expect(tokenize('/* line one\nline two */ x').map(t => t.value)).toEqual(['x', 'EOF']);
+    expect(tokenize('a /**/ b').map(t => t.value)).toEqual(['a', 'b', 'EOF']);
+  });
+
+  test('it should skip nested block comments', () => {
+    expect(tokenize('/* outer /* inner */ still outer */ x').map(t => t.value)).toEqual(['x', 'EOF']);
+    expect(tokenize('/* a /* b /* c */ */ */ 1').map(t => t.value)).toEqual(['1', 'EOF']);
+  });
+
+  test('it should count the lines inside block comments', () => {
+    expect(tokenize('/*\n\n*/\nx')[0].locationInSource.line).toBe(4);
+  });
+
+  test('it should report an unterminated block comment at its opening', () => {
+    expect(() => tokenize('let a = 1;\n/* open /* nested */')).toThrow('Unterminated block comment at line 2');
+    expect(() => tokenize('x /* never closed')).toThrow(expect.objectContaining({ name: 'LexerError', line: 1, position: 2 }));
+  });
+
+  test('it should attach doc comments to the following token', () => {
+    const tokens = tokenize('/**\n * Adds two numbers.\n *\n * @param a - The first one.\n */\nfunc add(a, b) { }');
+
+    expect(tokens[0]).toMatchObject({ type: TokenType.Func, docComment: 'Adds two numbers.\n\n@param a - The first one.' });
+    expect(tokens.slice(1).some(t => t.docComment !== undefined)).toBe(false);
+    expect(tokenize('/** The answer. */ let x = 42;')[0]).toMatchObject({ type: TokenType.Let, docComment: 'The answer.' });
+    expect(tokenize('/* Not a doc comment. */ let x = 42;')[0].docComment).toBeUndefined();
+  });
+
+  test('it should record where every token starts and ends', () => {
+    expect(positions('let total = -12;\n"hi" x')).toEqual([
+      ['let', 1, 1, 1, 4],
+      ['total', 1, 5, 1, 10],
+      ['=', 1, 11, 1, 12],
+      ['-', 1, 13, 1, 14],
+      ['12', 1, 14, 1, 16],
+      [';', 1, 16, 1, 17],
+      ['hi', 2, 1, 2, 5],
+      ['x', 2, 6, 2, 7],
+      ['EOF', 2, 7, 2, 7],
+    ]);
+  });
+
+  test('it should record UTF-16 and byte offsets', () => {
+    const [, name, , value] = tokenize('let \u00e9t\u00e9 = "\u20ac\u{1F600}";');
+
+    expect(name.locationInSource).toMatchObject({ position: 4, byteOffset: 4 });
+    expect(name.endInSource).toMatchObject({ position: 7, byteOffset: 9, column: 8 });
+    expect(value.locationInSource).toMatchObject({ position: 10, byteOffset: 12, column: 11 });
+    expect(value.endInSource).toMatchObject({ position: 15, byteOffset: 21, column: 15 });
+  });
+
+  test('it should count columns in code points', () => {
+    expect(positions('\u{1D465} + \u{1D466}')).toEqual([
+      ['\u{1D465}', 1, 1, 1, 2],
+      ['+', 1, 3, 1, 4],
+      ['\u{1D466}', 1, 5, 1, 6],
+      ['EOF', 1, 6, 1, 6],
+    ]);
+  });
+
+  test('it should count a CRLF line break once', () => {
+    expect(positions('a\r\nb\r\n\r\nc')).toEqual([
+      ['a', 1, 1, 1, 2],
+      ['b', 2, 1, 2, 2],
+      ['c', 4, 1, 4, 2],
+      ['EOF', 4, 2, 4, 2],
+    ]);
+
+    expect(positions('/* one\r\ntwo */ x // three\r\ny')).toEqual([
+      ['x', 2, 8, 2, 9],
+      ['y', 3, 1, 3, 2],
+      ['EOF', 3, 2, 3, 2],
+    ]);
+
+    expect(positions('a\rb')[1]).toEqual(['b', 2, 1, 2, 2]);
+  });
+
+  test('it should advance tabs to the next tab stop', () => {
+    expect(positions('\tx\n  \ty\nab\tz\n    \tw').map(([value, , column]) => [value, column])).toEqual([
+      ['x', 5],
+      ['y', 5],
+      ['ab', 1],
+      ['z', 5],
+      ['w', 9],
+      ['EOF', 10],
+    ]);
+  });
+
+  test('it should report errors at the offending column', () => {
+    expect(() => tokenize('let \u00e9 = 1 # 2;')).toThrow(expect.objectContaining({ line: 1, column: 11 }));
+    expect(() => tokenize('\tlet s = "open')).toThrow('Unterminated string literal at line 1, column 13');
+    expect(() => tokenize('x\r\n  1__0')).toThrow(expect.objectContaining({ line: 2, column: 4 }));
+  });
+
+  test('it should report a backslash at the end of the source as an unterminated string', () => {
+    expect(() => tokenize('"abc\\')).toThrow('Unterminated string literal at line 1, column 1');
+    expect(() => tokenize('`abc\\')).toThrow('Unterminated template literal');
+
+    for(const source of ['"abc\\', '"\\u{41']) {
+      const { tokens, diagnostics } = new Lexer(source).tokenizeWithRecovery();
+
+      expect(diagnostics.map(d => d.code)).toEqual(['L0002']);
+      expect(tokens[0].endInSource).toMatchObject({ position: source.length, byteOffset: source.length });
+      expect(tokens[1]).toMatchObject({ type: TokenType.EOF, locationInSource: { position: source.length } });
+    }
+  });
+
+  test('it should skip what it could not read when recovering', () => {
+    const { tokens, diagnostics } = new Lexer('a # b "open\n`c ${ 0x').tokenizeWithRecovery();
+
+    expect(tokens.map(t => [t.type, t.value])).toEqual([
+      [TokenType.Identifier, 'a'],
+      [TokenType.Identifier, 'b'],
+      [TokenType.String, 'open'],
+      [TokenType.TemplateStart, '`'],
+      [TokenType.TemplateChunk, 'c '],
+      [TokenType.TemplateExpressionStart, '${'],
+      [TokenType.Integer, '0x0'],
+      [TokenType.TemplateExpressionEnd, '}'],
+      [TokenType.TemplateEnd, '`'],
+      [TokenType.EOF, 'EOF'],
+    ]);
+
+    expect(diagnostics.map(d => [d.code, d.span?.start.line, d.span?.start.column])).toEqual([
+      ['L0001', 1, 3],
+      ['L0002', 1, 7],
+      ['L0001', 2, 9],
+      ['L0003', 2, 1],
+    ]);
+  });
+});
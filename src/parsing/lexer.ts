@@ -1,11 +1,18 @@
-import type { ReadonlyDict } from '../_internals/types';
-import { UnrecognizedTokenError } from '../_internals/errors';
+import type { ReadonlyDict, SourceLocationPointer } from '../_internals/types';
+import { LexerError, UnrecognizedTokenError } from '../_internals/errors';
+import { Diagnostic, DiagnosticCode } from '../diagnostics/diagnostic';
+import { getInfixOperator, operatorSymbols } from './operators';
 
 
 export const enum TokenType {
   Integer,
   Decimal,
   String,
+  TemplateStart,
+  TemplateChunk,
+  TemplateExpressionStart,
+  TemplateExpressionEnd,
+  TemplateEnd,
   Identifier,
   Equals,
   OpenParen,
@@ -15,6 +22,7 @@ export const enum TokenType {
   OpenBracket,
   CloseBracket,
   BinaryOperator,
+  UnaryOperator,
   
   // Keywords
   Let,
@@ -28,24 +36,30 @@ export const enum TokenType {
   Do,
   Func,
   Null,
+  Break,
+  Continue,
+  Return,
+  Throw,
+  Try,
+  Catch,
+  Finally,
 
   // Control 
   SemiColon,
   Dot,
   Colon,
   Comma,
+  Arrow,
   EOF,
 }
 
 
-const basicMathOperators: readonly string[] = [
-  '+', '-', '*', '/', '%',
-];
-
 const ignorables: readonly string[] = [
-  ' ', '\n', '\r', '\r\n', '\t',
+  ' ', '\n', '\r', '\t',
 ];
 
+export const tabWidth = 4;
+
 const controlCharacters: readonly string[] = [
   ';',
   '=',
@@ -66,6 +80,19 @@ const keywords: ReadonlyDict<TokenType> = {
   do: TokenType.Do,
   func: TokenType.Func,
   null: TokenType.Null,
+  break: TokenType.Break,
+  continue: TokenType.Continue,
+  return: TokenType.Return,
+  throw: TokenType.Throw,
+  try: TokenType.Try,
+  catch: TokenType.Catch,
+  finally: TokenType.Finally,
+};
+
+const radixPrefixes: ReadonlyDict<number> = {
+  x: 16,
+  b: 2,
+  o: 8,
 };
 
 const controls: ReadonlyDict<TokenType> = {
@@ -77,20 +104,46 @@ const controls: ReadonlyDict<TokenType> = {
 };
 
 
+export interface TokenLocation {
+  readonly line: number;
+
+  /** Counted in code points, with tab stops every `tabWidth` columns */
+  readonly column: number;
+
+  /** Offset in UTF-16 code units, that is an index in the source string */
+  readonly position: number;
+
+  /** Offset in bytes of the UTF-8 encoded source */
+  readonly byteOffset: number;
+
+  readonly filename?: string;
+}
+
 export interface Token {
   readonly value: string;
   readonly type: TokenType;
-  readonly locationInSource: {
-    readonly line: number;
-    readonly column: number;
-    readonly position: number;
-    readonly filename?: string;
-  }
+  readonly docComment?: string;
+
+  /** Where the first character of the token is */
+  readonly locationInSource: TokenLocation;
+
+  /** Just past the last character of the token */
+  readonly endInSource: TokenLocation;
+}
+
+
+// Identifiers follow the Unicode ID_Start/ID_Continue rules, plus `_` and `$`
+function _isIdentifierStart(s: string): boolean {
+  return /^[\p{ID_Start}_$]$/u.test(s);
 }
 
+function _isIdentifierPart(s: string): boolean {
+  return /^[\p{ID_Continue}$\u200C\u200D]$/u.test(s);
+}
 
-function _isAlpha(s: string): boolean {
-  return s.toUpperCase() !== s.toLowerCase();
+// Only the table's own keys are keywords, names like `toString` come from its prototype
+function _keyword(ident: string): TokenType | undefined {
+  return Object.prototype.hasOwnProperty.call(keywords, ident) ? keywords[ident] : undefined;
 }
 
 function _isInt(s: string): boolean {
@@ -104,9 +157,33 @@ function _isInt(s: string): boolean {
   return (c >= bounds[0] && c <= bounds[1]);
 }
 
-function _isFloat(s: string): boolean {
-  if(_isAlpha(s)) return false;
-  return /^[0-9]*\.?[0-9]*$/.test(s);
+function _isDigit(s: string | null | undefined, radix: number): boolean {
+  return typeof s === 'string' && s.length === 1 && !Number.isNaN(parseInt(s, radix));
+}
+
+
+/**
+ * Describes a token for error messages, e.g. "keyword `let`" or "end of input".
+ */
+export function describeToken(token: Token): string {
+  switch(token.type) {
+    case TokenType.EOF:
+      return 'end of input';
+    case TokenType.Integer:
+    case TokenType.Decimal:
+      return `number \`${token.value}\``;
+    case TokenType.String:
+      return `string \`${token.value}\``;
+    case TokenType.Identifier:
+      return `identifier \`${token.value}\``;
+    case TokenType.BinaryOperator:
+    case TokenType.UnaryOperator:
+      return `operator \`${token.value}\``;
+    default:
+      return _keyword(token.value) === token.type ?
+        `keyword \`${token.value}\`` :
+        `token \`${token.value}\``;
+  }
 }
 
 
@@ -114,13 +191,28 @@ export type SourceProps = {
   filename?: string;
 }
 
+export interface TokenizeResult {
+  tokens: Token[];
+  diagnostics: Diagnostic[];
+}
+
 export class Lexer {
   private _position: number = 0;
   private _line: number = 1;
   private _column: number = 1;
+  private _byteOffset: number = 0;
   private _char: string | null = null;
   private _characters: string[];
 
+  // A doc comment waiting for the token at `index` to be attached to
+  private _docComment: { text: string; index: number } | null = null;
+
+  // One entry for each template literal with an open `${`, tracking the braces opened inside of it
+  private readonly _templates: { braces: number; location: SourceLocationPointer }[] = [];
+
+  // The errors found so far while recovering, or `null` when the first error is thrown
+  private _diagnostics: Diagnostic[] | null = null;
+
   constructor(
     private readonly _source: string,
     private readonly _props?: SourceProps // eslint-disable-line comma-dangle
@@ -134,298 +226,513 @@ export class Lexer {
     return this._source;
   }
 
+  /**
+   * Tokenizes the source like `tokenize`, but instead of throwing on the first error
+   * it records it, skips what could not be read and carries on. An unterminated
+   * string or template is closed where it stops, so the parser still gets to see it.
+   */
+  public tokenizeWithRecovery(): TokenizeResult {
+    const diagnostics = [] as Diagnostic[];
+    this._diagnostics = diagnostics;
+
+    try {
+      return { tokens: this.tokenize(), diagnostics };
+    } finally {
+      this._diagnostics = null;
+    }
+  }
+
   public tokenize(): Token[] {
     const tokens = [] as Token[];
+    const operators = operatorSymbols();
 
     while(this._char != null && this._position < this._characters.length) {
-      const isPowerOperator = this._char === '*' && this._characters[this._position + 1] === '*';
+      this._attachDocComment(tokens);
 
       if(this._char === '(') {
-        tokens.push({
-          type: TokenType.OpenParen,
-          value: this._char,
-          locationInSource: {
-            column: this._column,
-            line: this._line,
-            position: this._position,
-            filename: this._props?.filename,
-          },
-        });
-
-        this._next();
+        tokens.push(this._read(TokenType.OpenParen, this._char));
       } else if(this._char === ')') {
-        tokens.push({
-          type: TokenType.CloseParen,
-          value: this._char,
-          locationInSource: {
-            column: this._column,
-            line: this._line,
-            position: this._position,
-            filename: this._props?.filename,
-          },
-        });
-
-        this._next();
+        tokens.push(this._read(TokenType.CloseParen, this._char));
       } else if(this._char === '[') {
-        tokens.push({
-          type: TokenType.OpenBrace,
-          value: this._char,
-          locationInSource: {
-            column: this._column,
-            line: this._line,
-            position: this._position,
-            filename: this._props?.filename,
-          },
-        });
-
-        this._next();
+        tokens.push(this._read(TokenType.OpenBrace, this._char));
       } else if(this._char === ']') {
-        tokens.push({
-          type: TokenType.CloseBrace,
-          value: this._char,
-          locationInSource: {
-            column: this._column,
-            line: this._line,
-            position: this._position,
-            filename: this._props?.filename,
-          },
-        });
-
-        this._next();
+        tokens.push(this._read(TokenType.CloseBrace, this._char));
       } else if(this._char === '{') {
-        tokens.push({
-          type: TokenType.OpenBracket,
-          value: this._char,
-          locationInSource: {
-            column: this._column,
-            line: this._line,
-            position: this._position,
-            filename: this._props?.filename,
-          },
-        });
+        if(this._templates.length > 0) {
+          this._templates[this._templates.length - 1].braces++;
+        }
 
-        this._next();
+        tokens.push(this._read(TokenType.OpenBracket, this._char));
+      } else if(this._char === '}' && this._templates.length > 0 && this._templates[this._templates.length - 1].braces === 0) {
+        const { location } = this._templates.pop()!;
+
+        tokens.push(this._read(TokenType.TemplateExpressionEnd, this._char));
+        this._readTemplateChunk(tokens, location);
       } else if(this._char === '}') {
-        tokens.push({
-          type: TokenType.CloseBracket,
-          value: this._char,
-          locationInSource: {
-            column: this._column,
-            line: this._line,
-            position: this._position,
-            filename: this._props?.filename,
-          },
-        });
+        if(this._templates.length > 0) {
+          this._templates[this._templates.length - 1].braces--;
+        }
 
-        this._next();
+        tokens.push(this._read(TokenType.CloseBracket, this._char));
+      } else if(this._char === '/' && this._characters[this._position + 1] === '*') {
+        const doc = this._readBlockComment();
+
+        if(doc !== null) {
+          this._docComment = { text: doc, index: tokens.length };
+        }
       } else if(this._char === '/' && this._characters[this._position + 1] === '/') {
         this._next();
         this._next();
 
         // @ts-expect-error Overloap for `this._char` is intentional because method next is called before this line checking for "/" and then consuming this character and so checking for a comment
-        while(this._char !== '\n' && this._char !== null) {
-          this._next();
-        }
-      } else if(this._char === '-') {
-        this._next();
-        let n = '';
-  
-        // @ts-expect-error Overloap for `this._char` is intentional because method next is called before this line checking for "-" and then consuming this character and so checking for a number
-        while(this._char !== null && (_isInt(this._char) || this._char === '.')) {
-          n += this._char;
-          this._next();
-        }
-        
-        const isDecimal = _isFloat(n);
-        this._next();
-  
-        tokens.push({
-          type: isDecimal ? TokenType.Decimal : TokenType.Integer,
-          value: `-${n}`,
-          locationInSource: {
-            column: this._column,
-            line: this._line,
-            position: this._position,
-            filename: this._props?.filename,
-          },
-        });
-      } else if(basicMathOperators.includes(this._char) || isPowerOperator) {
-        tokens.push({
-          type: TokenType.BinaryOperator,
-          value: isPowerOperator ? '**' : this._char,
-          locationInSource: {
-            column: this._column,
-            line: this._line,
-            position: this._position,
-            filename: this._props?.filename,
-          },
-        });
-
-        if(isPowerOperator) {
+        while(this._char !== '\n' && this._char !== '\r' && this._char !== null) {
           this._next();
         }
-
-        this._next();
+      } else if(this._char === '=' && this._characters[this._position + 1] === '>') {
+        tokens.push(this._read(TokenType.Arrow, '=>'));
+      } else if(this._lookahead(operators) !== null) {
+        const operator = this._lookahead(operators)!;
+        tokens.push(this._read(getInfixOperator(operator) ? TokenType.BinaryOperator : TokenType.UnaryOperator, operator));
       } else if(controlCharacters.includes(this._char)) {
         const type = controls[this._char];
 
         if(!type) {
-          throw new UnrecognizedTokenError(this._char, {
-            line: this._line,
-            column: this._column,
-            filename: this._props?.filename,
-            position: this._position,
-          });
+          this._unexpectedCharacter();
         }
 
-        tokens.push({
-          type,
-          value: this._char,
-          locationInSource: {
-            column: this._column,
-            line: this._line,
-            position: this._position,
-            filename: this._props?.filename,
-          },
-        });
+        tokens.push(this._read(type, this._char));
+      } else if(this._char === '`') {
+        const token = this._read(TokenType.TemplateStart, this._char);
+
+        tokens.push(token);
+        this._readTemplateChunk(tokens, token.locationInSource);
+      } else if(this._char === '"' || this._char === '\'') {
+        const quote = this._char;
+        const start = this._mark();
 
-        this._next();
-      } else if(this._char === '"') {
         let str = '';
-  
-        while(this._char !== null && this._char !== '"') {
+        this._next();
+
+        while(this._char !== quote) {
+          // @ts-expect-error Overloap for `this._char` is intentional because method next is called after checking for the opening quote
+          if(this._char === null || this._char === '\n' || this._char === '\r') {
+            this._report(new LexerError('Unterminated string literal', start, {
+              code: DiagnosticCode.UnterminatedString,
+              notes: ['Strings can\'t span multiple lines, use a template literal for multi-line text'],
+            }));
+
+            break;
+          }
+
+          // @ts-expect-error Overloap for `this._char` is intentional because method next is called after checking for the opening quote
+          if(this._char === '\\') {
+            str += this._readEscapeSequence();
+            continue;
+          }
+
           str += this._char;
           this._next();
         }
 
-        if(str.charAt(0) === '"') {
-          str = str.slice(1);
+        if(this._char === quote) {
+          this._next();
         }
 
-        if(str.charAt(str.length - 1) === '"') {
-          str = str.slice(0, -1);
+        tokens.push(this._token(TokenType.String, str, start));
+      } else {
+        if(_isInt(this._char)) {
+          tokens.push(this._readNumber());
+        } else if(_isIdentifierStart(this._codePoint()!)) {
+          const start = this._mark();
+          let ident = '';
+
+          // Characters outside the BMP span two entries of `_characters`
+          while(this._char !== null && _isIdentifierPart(this._codePoint()!)) {
+            const c = this._codePoint()!;
+            ident += c;
+
+            for(let i = 0; i < c.length; i++) {
+              this._next();
+            }
+          }
+
+          tokens.push(this._token(_keyword(ident) ?? TokenType.Identifier, ident, start));
+        } else if(ignorables.includes(this._char)) {
+          this._next();
+        } else {
+          this._unexpectedCharacter();
+          this._skipCodePoint();
         }
-  
-        tokens.push({
-          type: TokenType.String,
-          value: str,
-          locationInSource: {
-            column: this._column,
-            line: this._line,
-            position: this._position,
-            filename: this._props?.filename,
-          },
-        });
+      }
+    }
 
-        this._next();
-      } else {
-        if(_isFloat(this._char)) {
-          let n = '';
+    if(this._templates.length > 0) {
+      this._report(new LexerError('Unterminated template literal', this._templates[this._templates.length - 1].location, {
+        code: DiagnosticCode.UnterminatedTemplate,
+      }));
+
+      // Closes the open embedded expressions and their templates at the end of the source
+      while(this._templates.pop()) {
+        tokens.push(this._token(TokenType.TemplateExpressionEnd, '}', this._mark()));
+        tokens.push(this._token(TokenType.TemplateEnd, '`', this._mark()));
+      }
+    }
+
+    this._attachDocComment(tokens);
+    tokens.push(this._token(TokenType.EOF, 'EOF', this._mark()));
+
+    return tokens;
+  }
+
+  /**
+   * The position of the current character, which is where
+   * a token read from here starts.
+   */
+  private _mark(): TokenLocation {
+    return {
+      line: this._line,
+      column: this._column,
+      position: this._position,
+      byteOffset: this._byteOffset,
+      filename: this._props?.filename,
+    };
+  }
+
+  /**
+   * Builds a token from `start` to the current position, which
+   * must be just past the last character of the token.
+   */
+  private _token(type: TokenType, value: string, start: TokenLocation): Token {
+    return {
+      type,
+      value,
+      locationInSource: start,
+      endInSource: this._mark(),
+    };
+  }
+
+  private _read(type: TokenType, value: string): Token {
+    const start = this._mark();
+
+    for(let i = 0; i < value.length; i++) {
+      this._next();
+    }
+
+    return this._token(type, value, start);
+  }
+
+  /**
+   * Reads the literal text of a template up to its end or to the next `${`,
+   * in which case the lexer goes back to tokenizing the embedded expression.
+   */
+  private _readTemplateChunk(tokens: Token[], start: SourceLocationPointer): void {
+    const location = this._mark();
+
+    let str = '';
+
+    while(this._char !== '`' && !(this._char === '$' && this._characters[this._position + 1] === '{')) {
+      if(this._char === null) {
+        this._report(new LexerError('Unterminated template literal', start, { code: DiagnosticCode.UnterminatedTemplate }));
+        break;
+      }
 
-          // Keep consuming characters until it's not a digit or a dot
-          while(this._char !== null && (/^\d$/.test(this._char) || this._char === '.')) {
-            n += this._char;
+      if(this._char === '\\') {
+        str += this._readEscapeSequence();
+        continue;
+      }
+
+      str += this._char;
+      this._next();
+    }
+
+    if(str.length > 0) {
+      tokens.push(this._token(TokenType.TemplateChunk, str, location));
+    }
+
+    if(this._char === null) {
+      // Only reached when recovering, the template ends with the source
+      tokens.push(this._token(TokenType.TemplateEnd, '`', this._mark()));
+    } else if(this._char === '`') {
+      tokens.push(this._read(TokenType.TemplateEnd, '`'));
+    } else {
+      tokens.push(this._read(TokenType.TemplateExpressionStart, '${'));
+      this._templates.push({ braces: 0, location: start });
+    }
+  }
+
+  private _readEscapeSequence(): string {
+    const location = this._mark();
+
+    // Skip the backslash
+    this._next();
+
+    const c = this._char;
+
+    // The string or template the backslash is in is left unterminated, which is reported there
+    if(c === null) return '';
+
+    this._next();
+
+    switch(c) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      case 'r':
+        return '\r';
+      case '0':
+        return '\0';
+      case '\\':
+      case '"':
+      case '\'':
+      case '`':
+      case '$':
+        return c;
+      case 'u': {
+        let hex = '';
+        const braced = this._char === '{';
+
+        if(braced) {
+          this._next();
+
+          while(this._char !== null && this._char !== '}') {
+            hex += this._char;
             this._next();
           }
-          
-          tokens.push({
-            type: TokenType.Decimal,
-            value: n,
-            locationInSource: {
-              column: this._column,
-              line: this._line,
-              position: this._position,
-              filename: this._props?.filename,
-            },
-          });
-        } else if(_isInt(this._char)) {
-          let n = '';
-
-          while(this._char !== null && _isInt(this._char)) {
-            n += this._char;
+
+          if(this._char === '}') {
             this._next();
           }
+        } else {
+          for(let i = 0; i < 4 && this._char !== null; i++) {
+            hex += this._char;
+            this._next();
+          }
+        }
 
-          tokens.push({
-            type: TokenType.Integer,
-            value: n,
-            locationInSource: {
-              column: this._column,
-              line: this._line,
-              position: this._position,
-              filename: this._props?.filename,
-            },
-          });
-        } else if(_isAlpha(this._char)) {
-          let ident = '';
+        const codePoint = parseInt(hex, 16);
+
+        if(!/^[0-9a-fA-F]{1,6}$/.test(hex) || codePoint > 0x10FFFF) {
+          this._report(new LexerError(`Invalid unicode escape sequence \`\\u${braced ? `{${hex}}` : hex}\``, location, {
+            code: DiagnosticCode.InvalidEscapeSequence,
+            notes: ['Unicode escapes take four hex digits (`\\u00e9`) or up to six in braces (`\\u{1F600}`)'],
+          }));
+
+          return '';
+        }
+
+        return String.fromCodePoint(codePoint);
+      }
+      default:
+        this._report(new LexerError(`Invalid escape sequence \`\\${c}\``, location, { code: DiagnosticCode.InvalidEscapeSequence }));
+        return '';
+    }
+  }
 
-          while(this._char !== null && _isAlpha(this._char)) {
-            ident += this._char;
+  /**
+   * Reads a numeric literal: decimal integers, floats with an optional exponent
+   * (`1.5e-3`), hex (`0xFF`), binary (`0b1010`) and octal (`0o17`) integers.
+   * Digits can be grouped with underscores (`1_000_000`), which are dropped from the token.
+   */
+  private _readNumber(): Token {
+    const location = this._mark();
+
+    const prefix = this._char === '0' ? this._characters[this._position + 1]?.toLowerCase() : undefined;
+    const radix = radixPrefixes[prefix ?? ''] ?? 10;
+
+    let type = TokenType.Integer;
+    let n = '';
+
+    if(radix !== 10) {
+      n = `0${prefix}`;
+      this._next();
+      this._next();
+
+      const digits = this._readDigits(radix);
+
+      if(digits.length === 0) {
+        this._malformedNumber();
+      }
+
+      // Without digits, which only happens when recovering, the literal is read as zero
+      n += digits.length > 0 ? digits : '0';
+    } else {
+      n = this._readDigits(10);
+
+      if(this._char === '.' && _isDigit(this._characters[this._position + 1], 10)) {
+        type = TokenType.Decimal;
+        this._next();
+        n += `.${this._readDigits(10)}`;
+      }
+
+      if(this._char === 'e' || this._char === 'E') {
+        const sign = this._characters[this._position + 1] === '+' || this._characters[this._position + 1] === '-' ?
+          this._characters[this._position + 1] :
+          '';
+
+        if(_isDigit(this._characters[this._position + 1 + sign.length], 10)) {
+          type = TokenType.Decimal;
+
+          for(let i = 0; i <= sign.length; i++) {
             this._next();
           }
 
-          const reserved = keywords[ident];
-
-          if(!reserved) {
-            tokens.push({
-              type: TokenType.Identifier,
-              value: ident,
-              locationInSource: {
-                column: this._column,
-                line: this._line,
-                position: this._position,
-                filename: this._props?.filename,
-              },
-            });
-          } else {
-            tokens.push({
-              type: reserved,
-              value: ident,
-              locationInSource: {
-                column: this._column,
-                line: this._line,
-                position: this._position,
-                filename: this._props?.filename,
-              },
-            });
-          }
-        } else if(ignorables.includes(this._char)) {
-          if(this._char === '\n' || this._char === '\r' || this._char === '\r\n') {
-            this._line++;
-            this._column = 1;
-          } else if(this._char === '\t') {
-            this._column += 4;
-          } else if(this._char === ' ') {
-            this._column++;
-          }
+          n += `e${sign}${this._readDigits(10)}`;
+        }
+      }
+    }
 
-          this._next();
-        } else {
-          throw new UnrecognizedTokenError(this._char, {
-            line: this._line,
-            column: this._column,
-            filename: this._props?.filename,
-            position: this._position,
-          });
+    // A literal can't run into an identifier, a stray separator or another fraction, e.g. `1.2.3`
+    if(this._runsIntoNumber()) {
+      this._malformedNumber();
+    }
+
+    return this._token(type, n, location);
+  }
+
+  private _runsIntoNumber(): boolean {
+    return this._char !== null &&
+      (_isIdentifierPart(this._codePoint()!) ||
+      (this._char === '.' && _isDigit(this._characters[this._position + 1], 10)));
+  }
+
+  // Reports where a numeric literal goes wrong and skips the rest of it
+  private _malformedNumber(): void {
+    this._unexpectedCharacter();
+
+    while(this._runsIntoNumber()) {
+      this._skipCodePoint();
+    }
+  }
+
+  private _readDigits(radix: number): string {
+    let digits = '';
+
+    while(this._char !== null) {
+      if(_isDigit(this._char, radix)) {
+        digits += this._char;
+      } else if(this._char !== '_' || digits.length === 0 || !_isDigit(this._characters[this._position + 1], radix)) {
+        break;
+      }
+
+      this._next();
+    }
+
+    return digits;
+  }
+
+  private _unexpectedCharacter(): void {
+    this._report(new UnrecognizedTokenError(this._codePoint() ?? 'EOF', this._mark()));
+  }
+
+  // Throws the error, or records it when recovering
+  private _report(error: LexerError | UnrecognizedTokenError): void {
+    if(!this._diagnostics) throw error;
+    this._diagnostics.push(error.diagnostic);
+  }
+
+  /**
+   * Skips a block comment, which can be nested. Returns the text of a doc comment
+   * (opened with two asterisks) without the leading asterisks, or `null` for a plain comment.
+   */
+  private _readBlockComment(): string | null {
+    const location = this._mark();
+
+    const isDoc = this._characters[this._position + 2] === '*' && this._characters[this._position + 3] !== '/';
+    let depth = 1;
+    let text = '';
+
+    this._next();
+    this._next();
+
+    while(depth > 0) {
+      if(this._char === null) {
+        this._report(new LexerError('Unterminated block comment', location, {
+          code: DiagnosticCode.UnterminatedComment,
+          notes: ['Block comments nest, so each `/*` inside of it needs its own `*/`'],
+        }));
+
+        return null;
+      }
+
+      const pair = this._char + (this._characters[this._position + 1] ?? '');
+
+      if(pair === '/*' || pair === '*/') {
+        depth += pair === '/*' ? 1 : -1;
+
+        if(depth > 0) {
+          text += pair;
         }
+
+        this._next();
+        this._next();
+
+        continue;
       }
+
+      text += this._char;
+      this._next();
     }
 
-    tokens.push({
-      type: TokenType.EOF,
-      value: 'EOF',
-      locationInSource: {
-        column: this._column,
-        line: this._line,
-        position: this._position,
-        filename: this._props?.filename,
-      },
-    });
+    if(!isDoc) return null;
 
-    return tokens;
+    const lines = text.slice(1)
+      .split(/\r?\n/)
+      .map(line => line.replace(/^\s*\*?\s?/, '').trimEnd());
+
+    while(lines.length > 0 && lines[0] === '') lines.shift();
+    while(lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+
+    return lines.join('\n');
+  }
+
+  private _attachDocComment(tokens: Token[]): void {
+    if(!this._docComment || tokens.length <= this._docComment.index) return;
+
+    const { text, index } = this._docComment;
+    tokens[index] = { ...tokens[index], docComment: text };
+
+    this._docComment = null;
+  }
+
+  private _codePoint(): string | null {
+    const c = this._source.codePointAt(this._position);
+    return typeof c === 'number' ? String.fromCodePoint(c) : null;
+  }
+
+  private _skipCodePoint(): void {
+    const c = this._codePoint();
+
+    for(let i = 0; i < (c?.length ?? 1); i++) {
+      this._next();
+    }
+  }
+
+  private _lookahead(candidates: readonly string[]): string | null {
+    for(const candidate of candidates) {
+      if(this._source.startsWith(candidate, this._position)) return candidate;
+    }
+
+    return null;
   }
 
   private _next(): void {
+    const c = this._char;
+    const code = this._characters[this._position]?.charCodeAt(0) ?? 0;
+
+    // A `\r\n` pair ends a single line, at its `\n`
+    if(c === '\n' || (c === '\r' && this._characters[this._position + 1] !== '\n')) {
+      this._line++;
+      this._column = 1;
+    } else if(c === '\t') {
+      this._column += tabWidth - (this._column - 1) % tabWidth;
+    } else if(c !== '\r' && !(code >= 0xDC00 && code <= 0xDFFF)) {
+      // The low half of a surrogate pair belongs to the same code point as the high half
+      this._column++;
+    }
+
+    // Each half of a surrogate pair accounts for two of the four bytes of the code point
+    this._byteOffset += code < 0x80 ? 1 : code < 0x800 || (code >= 0xD800 && code <= 0xDFFF) ? 2 : 3;
     this._position++;
 
     if(this._position < this._characters.length) {
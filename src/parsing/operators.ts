@@ -0,0 +1,125 @@
+import { Exception } from '../_internals/errors';
+
+
+export type Associativity = 'left' | 'right';
+
+export interface InfixOperator {
+  readonly symbol: string;
+  readonly precedence: number;
+  readonly associativity: Associativity;
+  readonly kind: 'BinaryExpression' | 'LogicalExpression';
+}
+
+export interface PrefixOperator {
+  readonly symbol: string;
+  readonly precedence: number;
+}
+
+
+/**
+ * Binding powers used by the parser. Higher values bind tighter;
+ * prefix operators bind looser than `**` so that `-a ** b` is `-(a ** b)`.
+ */
+export const enum Precedence {
+  LogicalOr = 10,
+  LogicalAnd = 20,
+  Equality = 30,
+  Relational = 40,
+  Additive = 50,
+  Multiplicative = 60,
+  Prefix = 70,
+  Exponentiation = 80,
+}
+
+
+const infixOperators: Map<string, InfixOperator> = new Map([
+  { symbol: '||', precedence: Precedence.LogicalOr, associativity: 'left', kind: 'LogicalExpression' },
+  { symbol: '&&', precedence: Precedence.LogicalAnd, associativity: 'left', kind: 'LogicalExpression' },
+  { symbol: '==', precedence: Precedence.Equality, associativity: 'left', kind: 'BinaryExpression' },
+  { symbol: '!=', precedence: Precedence.Equality, associativity: 'left', kind: 'BinaryExpression' },
+  { symbol: '<', precedence: Precedence.Relational, associativity: 'left', kind: 'BinaryExpression' },
+  { symbol: '<=', precedence: Precedence.Relational, associativity: 'left', kind: 'BinaryExpression' },
+  { symbol: '>', precedence: Precedence.Relational, associativity: 'left', kind: 'BinaryExpression' },
+  { symbol: '>=', precedence: Precedence.Relational, associativity: 'left', kind: 'BinaryExpression' },
+  { symbol: '+', precedence: Precedence.Additive, associativity: 'left', kind: 'BinaryExpression' },
+  { symbol: '-', precedence: Precedence.Additive, associativity: 'left', kind: 'BinaryExpression' },
+  { symbol: '*', precedence: Precedence.Multiplicative, associativity: 'left', kind: 'BinaryExpression' },
+  { symbol: '/', precedence: Precedence.Multiplicative, associativity: 'left', kind: 'BinaryExpression' },
+  { symbol: '%', precedence: Precedence.Multiplicative, associativity: 'left', kind: 'BinaryExpression' },
+  { symbol: '**', precedence: Precedence.Exponentiation, associativity: 'right', kind: 'BinaryExpression' },
+].map(o => [o.symbol, o as InfixOperator]));
+
+const builtInInfixOperators: readonly string[] = [...infixOperators.keys()];
+
+const prefixOperators: Map<string, PrefixOperator> = new Map([
+  { symbol: '!', precedence: Precedence.Prefix },
+  { symbol: '~', precedence: Precedence.Prefix },
+  { symbol: '-', precedence: Precedence.Prefix },
+  { symbol: '+', precedence: Precedence.Prefix },
+].map(o => [o.symbol, o]));
+
+
+// Characters that are already meaningful to the lexer on their own
+const reservedSymbols: readonly string[] = [
+  '=', '=>', '.', ',', ':', ';', '(', ')', '[', ']', '{', '}', '"', '\'', '`',
+];
+
+
+/**
+ * Registers a custom infix operator so it's recognized by the lexer and
+ * parsed as a `BinaryExpression`. The runtime behaviour of the operator
+ * must be provided separately to the interpreter.
+ *
+ * @param symbol - The operator symbol, made only of punctuation characters (e.g. `|>`).
+ * @param precedence - The binding power of the operator, see `Precedence` for the built-in levels.
+ * @param associativity - Whether chains of the operator group to the left or to the right.
+ */
+export function registerInfixOperator(symbol: string, precedence: number, associativity: Associativity = 'left'): void {
+  if(!/^[+\-*/%<>=!&|^~?@#]+$/.test(symbol) || reservedSymbols.includes(symbol) || symbol.includes('//') || symbol.includes('/*')) {
+    throw new Exception(`Cannot register \`${symbol}\` as an infix operator`);
+  }
+
+  if(infixOperators.has(symbol)) {
+    throw new Exception(`The infix operator \`${symbol}\` is already registered`);
+  }
+
+  if(!Number.isFinite(precedence) || precedence <= 0) {
+    throw new Exception(`The precedence of an infix operator must be a positive number, but got ${precedence}`);
+  }
+
+  infixOperators.set(symbol, {
+    symbol,
+    precedence,
+    associativity,
+    kind: 'BinaryExpression',
+  });
+}
+
+/**
+ * Removes a custom infix operator added with `registerInfixOperator`,
+ * the built-in operators can't be removed. Removing an unknown symbol does nothing.
+ */
+export function unregisterInfixOperator(symbol: string): void {
+  if(builtInInfixOperators.includes(symbol)) {
+    throw new Exception(`The built-in infix operator \`${symbol}\` cannot be unregistered`);
+  }
+
+  infixOperators.delete(symbol);
+}
+
+export function getInfixOperator(symbol: string): InfixOperator | undefined {
+  return infixOperators.get(symbol);
+}
+
+export function getPrefixOperator(symbol: string): PrefixOperator | undefined {
+  return prefixOperators.get(symbol);
+}
+
+/**
+ * Returns every known operator symbol, longest first, so the lexer
+ * can match multi-character operators before their prefixes.
+ */
+export function operatorSymbols(): string[] {
+  return [...new Set([...infixOperators.keys(), ...prefixOperators.keys()])]
+    .sort((a, b) => b.length - a.length);
+}
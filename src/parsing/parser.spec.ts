@@ -0,0 +1,177 @@
+import Parser from './parser';
+import { DiagnosticCode } from '../diagnostics/diagnostic';
+import { BinaryExpression, BlockStatement, ErrorNode, FunctionDeclaration, IfStatement, Statement, VariableDeclaration } from './ast';
+
+
+describe('parsing/parser', () => {
+  test('it should attach doc comments to declarations', () => {
+    const program = new Parser(`
+      /** Shared library header. */
+
+      /**
+       * Returns the square of a number.
+       */
+      func square(x) { return x * x; }
+
+      /** How many times to retry. */
+      const retries = 3;
+
+      let plain = 1;
+    `).parse();
+
+    const [square, retries, plain] = program.body as [FunctionDeclaration, VariableDeclaration, VariableDeclaration];
+
+    expect(square.docComment).toBe('Returns the square of a number.');
+    expect(retries.docComment).toBe('How many times to retry.');
+    expect(plain.docComment).toBeUndefined();
+  });
+
+  test('it should record a span on every node', () => {
+    const program = new Parser('let a = 1 + 23;\nif a then { print(a); }', { filename: 'main.pg' }).parse();
+
+    const visit = (node: Statement): void => {
+      expect(node.span).toBeDefined();
+      expect(node.span.filename).toBe('main.pg');
+      expect(node.span.end.offset).toBeGreaterThanOrEqual(node.span.start.offset);
+
+      for(const child of Object.values(node).flat()) {
+        if(child && typeof child === 'object' && 'kind' in child) visit(child as Statement);
+      }
+    };
+
+    visit(program);
+
+    const [declaration, conditional] = program.body as [VariableDeclaration, IfStatement];
+
+    expect(declaration.span).toMatchObject({ start: { line: 1, column: 1, offset: 0 }, end: { line: 1, column: 16, offset: 15 } });
+    expect(conditional.span).toMatchObject({ start: { line: 2, column: 1, offset: 16 }, end: { line: 2, column: 24, offset: 39 } });
+    expect(conditional.consequent.body[0].span).toMatchObject({ start: { column: 13 }, end: { column: 21 } });
+  });
+
+  test('it should span binary expressions from their left operand to their right one', () => {
+    const [declaration] = new Parser('let a = 1 + 23;').parse().body as [VariableDeclaration];
+    const sum = declaration.value as BinaryExpression;
+
+    expect(sum.span.start).toEqual(sum.left.span.start);
+    expect(sum.span.end).toEqual(sum.right.span.end);
+    expect(sum.left.span).toMatchObject({ start: { offset: 8 }, end: { offset: 9 } });
+    expect(sum.right.span).toMatchObject({ start: { offset: 12 }, end: { offset: 14 } });
+    expect(sum.span.filename).toBeUndefined();
+  });
+
+  test('it should span parenthesized expressions with their parentheses', () => {
+    const [declaration] = new Parser('let v = (1 + 2) * 3;').parse().body as [VariableDeclaration];
+    const product = declaration.value as BinaryExpression;
+
+    expect(product.span).toMatchObject({ start: { offset: 8 }, end: { offset: 19 } });
+    expect(product.left.span).toMatchObject({ start: { offset: 8 }, end: { offset: 15 } });
+    expect((product.left as BinaryExpression).left.span).toMatchObject({ start: { offset: 9 }, end: { offset: 10 } });
+  });
+
+  test('it should report every syntax error when recovering', () => {
+    const { program, diagnostics } = new Parser([
+      'let a = 1;',
+      'let = 2;',
+      'let b = a +;',
+      'const c = 3;',
+      'if { }',
+      'const d = a + b + c;',
+    ].join('\n')).parseWithRecovery();
+
+    expect(program.body.map(node => node.kind)).toEqual([
+      'VariableDeclaration',
+      'Error',
+      'Error',
+      'VariableDeclaration',
+      'Error',
+      'VariableDeclaration',
+    ]);
+
+    expect(diagnostics).toHaveLength(3);
+    expect(diagnostics.map(d => d.code)).toEqual([DiagnosticCode.ExpectedToken, DiagnosticCode.UnexpectedToken, DiagnosticCode.ExpectedToken]);
+    expect((program.body[1] as ErrorNode).message).toBe(diagnostics[0].message);
+    expect(program.body[1].span).toMatchObject({ start: { line: 2, column: 1 }, end: { line: 2, column: 9 } });
+  });
+
+  test('it should recover inside blocks', () => {
+    const { program, diagnostics } = new Parser(`
+      func f(x) {
+        let y = ) x;
+        break;
+        return x;
+      }
+
+      while true { continue; }
+    `).parseWithRecovery();
+
+    const [f, loop] = program.body as [FunctionDeclaration, Statement];
+
+    expect(diagnostics).toHaveLength(2);
+    expect(diagnostics[1].message).toContain('Unexpected `break` outside of a loop');
+    expect(f.body.body.map(node => node.kind)).toEqual(['Error', 'Error', 'ReturnStatement']);
+    expect(loop.kind).toBe('WhileStatement');
+  });
+
+  test('it should skip stray tokens between statements', () => {
+    const { program, diagnostics } = new Parser('} ; let a = 1; ) let b = 2;').parseWithRecovery();
+
+    expect(program.body.map(node => node.kind)).toEqual(['Error', 'VariableDeclaration', 'Error', 'VariableDeclaration']);
+    expect(diagnostics).toHaveLength(2);
+  });
+
+  test('it should report an unclosed block once', () => {
+    const { program, diagnostics } = new Parser('if true { let a = 1;').parseWithRecovery();
+
+    expect(program.body.map(node => node.kind)).toEqual(['Error']);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toContain('Expected a closing bracket at the end of the block');
+  });
+
+  test('it should skip the brackets a broken statement opened', () => {
+    const objectLiteral = new Parser('let x = {a: }; let y = 1;').parseWithRecovery();
+
+    expect(objectLiteral.program.body.map(node => node.kind)).toEqual(['Error', 'VariableDeclaration']);
+    expect(objectLiteral.diagnostics).toHaveLength(1);
+
+    expect(new Parser('func f( { }').parseWithRecovery().diagnostics).toHaveLength(1);
+    expect(new Parser('let x = {a: };').parseWithRecovery().diagnostics).toHaveLength(1);
+
+    const { program, diagnostics } = new Parser('if true { let x = {a: }; let y = 1; }').parseWithRecovery();
+
+    expect(diagnostics).toHaveLength(1);
+    expect((program.body[0] as IfStatement).consequent.body.map(node => node.kind)).toEqual(['Error', 'VariableDeclaration']);
+  });
+
+  test('it should report lexer errors as diagnostics when recovering', () => {
+    const { program, diagnostics } = new Parser([
+      'let a = "open',
+      'let b = "\\q";',
+      'let c = 1;',
+      'let d = `${',
+    ].join('\n')).parseWithRecovery();
+
+    expect(diagnostics.map(d => d.code)).toEqual([
+      DiagnosticCode.UnterminatedString,
+      DiagnosticCode.ExpectedToken,
+      DiagnosticCode.InvalidEscapeSequence,
+      DiagnosticCode.UnterminatedTemplate,
+      DiagnosticCode.UnexpectedToken,
+    ]);
+
+    expect(program.body.map(node => node.kind)).toEqual(['Error', 'VariableDeclaration', 'VariableDeclaration', 'Error']);
+    expect(diagnostics[2].span).toMatchObject({ start: { line: 2, column: 10 } });
+
+    expect(new Parser('let a = 1; /* open').parseWithRecovery()).toMatchObject({
+      program: { body: [{ kind: 'VariableDeclaration' }] },
+      diagnostics: [{ code: DiagnosticCode.UnterminatedComment }],
+    });
+
+    expect(() => new Parser('let a = "open').parse()).toThrow('Unterminated string literal');
+  });
+
+  test('it should keep throwing on the first error without recovery', () => {
+    expect(() => new Parser('let = 1; let = 2;').parse()).toThrow('Parser error');
+    expect(new Parser('let a = { b: 1 };').parseWithRecovery().diagnostics).toEqual([]);
+    expect(((new Parser('{ 1; }').parseWithRecovery().program.body[0]) as BlockStatement).body).toHaveLength(1);
+  });
+});
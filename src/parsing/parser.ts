@@ -1,33 +1,129 @@
-import { Lexer, Token, TokenType } from './lexer';
+import { describeToken, Lexer, SourceProps, Token, TokenType } from './lexer';
+import { getInfixOperator, getPrefixOperator } from './operators';
 import { ParserError, UnexpectedTokenError } from '../_internals/errors';
+import { Diagnostic, DiagnosticCode, DiagnosticFix } from '../diagnostics/diagnostic';
+import type { ReadonlyDict } from '../_internals/types';
 
 import {
+  ArrayLiteral,
+  ArrowFunctionExpression,
   AssignmentExpression,
   BinaryExpression,
+  BlockStatement,
+  BreakStatement,
   CallExpression,
+  CatchClause,
+  ContinueStatement,
   DecimalLiteral,
+  DoWhileStatement,
+  ErrorNode,
   Expression,
+  ForStatement,
+  FunctionDeclaration,
+  FunctionExpression,
   Identifier,
+  IfStatement,
   IntegerLiteral,
+  LogicalExpression,
   MemberExpression,
+  NullLiteral,
   ObjectLiteral,
   Program,
   Property,
+  ReturnStatement,
+  SourcePosition,
+  SourceSpan,
   Statement,
+  StringLiteral,
+  TemplateLiteral,
+  ThrowStatement,
+  TryStatement,
+  UnaryExpression,
   VariableDeclaration,
+  WhileStatement,
 } from './ast';
 
 
-export class Parser {
-  private readonly _tokens: readonly Token[] = [];
-  private _token: Token;
-  private _position: number;
+export interface ParseResult {
+  program: Program;
+  diagnostics: Diagnostic[];
+}
+
+
+// Keywords that can only start a statement, where parsing picks up again after an error
+const synchronizingTokens: readonly TokenType[] = [
+  TokenType.Let,
+  TokenType.Const,
+  TokenType.If,
+  TokenType.While,
+  TokenType.For,
+  TokenType.Do,
+  TokenType.Func,
+  TokenType.Break,
+  TokenType.Continue,
+  TokenType.Return,
+  TokenType.Throw,
+  TokenType.Try,
+];
+
+// Tokens that are missing often enough to suggest inserting them
+const insertableTokens: ReadonlyDict<string> = {
+  [TokenType.SemiColon]: ';',
+  [TokenType.CloseParen]: ')',
+  [TokenType.CloseBrace]: ']',
+  [TokenType.CloseBracket]: '}',
+};
+
+
+function _startOf(t: Token): SourcePosition {
+  return {
+    line: t.locationInSource.line,
+    column: t.locationInSource.column,
+    offset: t.locationInSource.position,
+  };
+}
+
+function _endOf(t: Token): SourcePosition {
+  return {
+    line: t.endInSource.line,
+    column: t.endInSource.column,
+    offset: t.endInSource.position,
+  };
+}
+
+function _bracketDepthChange(t: Token): number {
+  return t.type === TokenType.OpenBracket ? 1 : t.type === TokenType.CloseBracket ? -1 : 0;
+}
 
-  constructor(source: string) {
-    const tokenizer = new Lexer(source);
-    this._tokens = Object.freeze(tokenizer.tokenize());
 
+// Integers beyond the safe range are kept exact as a bigint
+function _parseInteger(digits: string): number | bigint {
+  const n = BigInt(digits);
+  return n >= Number.MIN_SAFE_INTEGER && n <= Number.MAX_SAFE_INTEGER ? Number(n) : n;
+}
+
+
+export class Parser {
+  private _tokens: readonly Token[] = [];
+  private _token!: Token;
+  private _position: number = 0;
+  private _previous: Token | null = null;
+  private _loopDepth: number = 0;
+  private _functionDepth: number = 0;
+  private _blockDepth: number = 0;
+
+  // The errors found so far while recovering, or `null` when the first error is thrown
+  private _diagnostics: Diagnostic[] | null = null;
+
+  constructor(
+    private readonly _source: string,
+    private readonly _props?: SourceProps // eslint-disable-line comma-dangle
+  ) { }
+
+  private _load(tokens: Token[]): void {
+    this._tokens = Object.freeze(tokens);
     this._position = 0;
+    this._previous = null;
     this._token = this._tokens[this._position];
   }
 
@@ -42,33 +138,159 @@ export class Parser {
     this._token = this._tokens[this._position];
   }
 
+  private _peek(offset: number = 1): Token {
+    return this._tokens[Math.min(this._position + offset, this._tokens.length - 1)];
+  }
+
   private _eat(): Token {
     const t = this._token;
+    this._previous = t;
     this._next();
 
     return t;
   }
 
+  /**
+   * Spans from the start of `start`, either a token or a node that was already
+   * parsed, to the end of the last consumed token.
+   */
+  private _spanFrom(start: Token | Statement): SourceSpan {
+    const end = this._previous ?? this._token;
+
+    return {
+      start: 'kind' in start ? start.span.start : _startOf(start),
+      end: _endOf(end),
+      filename: this._props?.filename,
+    };
+  }
+
+  private _node<T extends Statement>(start: Token | Statement, node: Omit<T, 'span'>): T {
+    return { ...node, span: this._spanFrom(start) } as T;
+  }
+
   private _expect(type: TokenType, message: string): Token {
     if(!this._token ||
         this._token.type !== type) {
-      throw new ParserError(message, this._token);
+      throw new ParserError(message, this._token, {
+        code: DiagnosticCode.ExpectedToken,
+        fixes: this._insertionFix(type),
+      });
     }
 
     return this._eat();
   }
 
+  // Suggests inserting a missing token right after the last one consumed
+  private _insertionFix(type: TokenType): DiagnosticFix[] {
+    const text = insertableTokens[type];
+    if(!text || !this._previous) return [];
+
+    const end = _endOf(this._previous);
+
+    return [{
+      message: `Insert \`${text}\``,
+      span: { start: end, end, filename: this._props?.filename },
+      replacement: text,
+    }];
+  }
+
   public parse(): Program {
-    const p: Program = {
-      body: [],
-      kind: 'Program',
-    };
+    this._load(new Lexer(this._source, this._props).tokenize());
+    return this._parseProgram();
+  }
+
+  private _parseProgram(): Program {
+    const start = this._token;
+    const body = [] as Statement[];
 
     while(!this._eof()) {
-      p.body.push(this._parseStatement());
+      body.push(this._parseStatementOrRecover());
     }
 
-    return p;
+    return this._node<Program>(start, {
+      kind: 'Program',
+      body,
+    });
+  }
+
+  /**
+   * Parses the source like `parse`, but instead of throwing on the first syntax error
+   * it records it, skips to the start of the next statement and carries on.
+   * Each statement that could not be parsed is replaced by an `Error` node.
+   *
+   * The source is tokenized with recovery too, so the errors of the lexer are
+   * reported along with those of the parser, in the order they appear in the source.
+   */
+  public parseWithRecovery(): ParseResult {
+    const { tokens, diagnostics } = new Lexer(this._source, this._props).tokenizeWithRecovery();
+
+    this._load(tokens);
+    this._diagnostics = diagnostics;
+
+    try {
+      const program = this._parseProgram();
+      diagnostics.sort((a, b) => (a.span?.start.offset ?? 0) - (b.span?.start.offset ?? 0));
+
+      return { program, diagnostics };
+    } finally {
+      this._diagnostics = null;
+    }
+  }
+
+  private _parseStatementOrRecover(): Statement {
+    if(!this._diagnostics) return this._parseStatement();
+
+    const start = this._token;
+    const position = this._position;
+    const [loopDepth, functionDepth] = [this._loopDepth, this._functionDepth];
+
+    try {
+      return this._parseStatement();
+    } catch (err) {
+      if(!(err instanceof ParserError) && !(err instanceof UnexpectedTokenError)) throw err;
+
+      this._diagnostics.push(err.diagnostic);
+      this._loopDepth = loopDepth;
+      this._functionDepth = functionDepth;
+
+      this._synchronize(position);
+
+      return this._node<ErrorNode>(start, {
+        kind: 'Error',
+        message: err.diagnostic.message,
+      });
+    }
+  }
+
+  /**
+   * Skips tokens up to the end of the broken statement, which started at `position`:
+   * past a semicolon, up to a keyword that starts a new statement, or up to the
+   * closing bracket of the enclosing block. Brackets the statement opened itself,
+   * like those of an object literal, are skipped along with it.
+   */
+  private _synchronize(position: number): void {
+    let depth = 0;
+
+    for(let i = position; i < this._position; i++) {
+      depth += _bracketDepthChange(this._tokens[i]);
+    }
+
+    // A statement that failed on its first token would fail again on the same one
+    if(this._position === position) {
+      const t = this._eat();
+
+      if(t.type === TokenType.SemiColon) return;
+      depth += _bracketDepthChange(t);
+    }
+
+    while(!this._eof() && !synchronizingTokens.includes(this._token.type)) {
+      if(this._token.type === TokenType.CloseBracket && depth <= 0 && this._blockDepth > 0) return;
+
+      const t = this._eat();
+
+      if(t.type === TokenType.SemiColon && depth <= 0) return;
+      depth += _bracketDepthChange(t);
+    }
   }
 
   private _parseStatement(): Statement {
@@ -77,9 +299,413 @@ export class Parser {
         return this._parseDeclaration();
       case TokenType.Const:
         return this._parseDeclaration();
+      case TokenType.If:
+        return this._parseIfStatement();
+      case TokenType.While:
+        return this._parseWhileStatement();
+      case TokenType.Do:
+        return this._parseDoWhileStatement();
+      case TokenType.For:
+        return this._parseForStatement();
+      case TokenType.Break:
+      case TokenType.Continue:
+        return this._parseLoopControlStatement();
+      case TokenType.Func:
+        if(this._peek().type !== TokenType.Identifier) return this._parseExpressionStatement();
+        return this._parseFunctionDeclaration();
+      case TokenType.Return:
+        return this._parseReturnStatement();
+      case TokenType.Throw:
+        return this._parseThrowStatement();
+      case TokenType.Try:
+        return this._parseTryStatement();
+      case TokenType.OpenBracket:
+        if(this._isObjectLiteralAhead()) return this._parseExpressionStatement();
+        return this._parseBlockStatement();
       default:
-        return this._parseExpression();
+        return this._parseExpressionStatement();
+    }
+  }
+
+  /**
+   * In statement position `{` opens a block unless it's followed by
+   * `key:` or `key,`, which can only start an object literal.
+   */
+  private _isObjectLiteralAhead(): boolean {
+    if(this._peek().type !== TokenType.Identifier) return false;
+
+    const next = this._peek(2).type;
+    return next === TokenType.Colon || next === TokenType.Comma;
+  }
+
+  private _parseExpressionStatement(): Expression {
+    const e = this._parseExpression();
+
+    if(this._token.type === TokenType.SemiColon) {
+      this._eat();
+    }
+
+    return e;
+  }
+
+  private _parseBlockStatement(): BlockStatement {
+    const t = this._expect(TokenType.OpenBracket,
+      'Expected an opening bracket at the start of the block');
+
+    const body = [] as Statement[];
+    this._blockDepth++;
+
+    try {
+      while(!this._eof() && this._token.type !== TokenType.CloseBracket) {
+        body.push(this._parseStatementOrRecover());
+      }
+    } finally {
+      this._blockDepth--;
+    }
+
+    this._expect(TokenType.CloseBracket,
+      'Expected a closing bracket at the end of the block');
+
+    return this._node<BlockStatement>(t, {
+      kind: 'BlockStatement',
+      body,
+    });
+  }
+
+  private _parseIfStatement(): IfStatement {
+    const t = this._expect(TokenType.If, 'Expected the `if` keyword');
+    const test = this._parseExpression();
+
+    if(this._token.type === TokenType.Then) {
+      this._eat();
+    }
+
+    const consequent = this._parseBlockStatement();
+    let alternate: BlockStatement | IfStatement | undefined;
+
+    if(this._token.type === TokenType.Else) {
+      this._eat();
+
+      // @ts-expect-error Overloap for `this._token` is intentional because method "eat" is called after checking for the `else` keyword
+      alternate = this._token.type === TokenType.If ?
+        this._parseIfStatement() :
+        this._parseBlockStatement();
+    }
+
+    return this._node<IfStatement>(t, {
+      kind: 'IfStatement',
+      test,
+      consequent,
+      ...(alternate ? { alternate } : {}),
+    });
+  }
+
+  private _parseLoopBody(): BlockStatement {
+    this._loopDepth++;
+
+    try {
+      return this._parseBlockStatement();
+    } finally {
+      this._loopDepth--;
+    }
+  }
+
+  private _parseWhileStatement(): WhileStatement {
+    const t = this._expect(TokenType.While, 'Expected the `while` keyword');
+
+    return this._node<WhileStatement>(t, {
+      kind: 'WhileStatement',
+      test: this._parseExpression(),
+      body: this._parseLoopBody(),
+    });
+  }
+
+  private _parseDoWhileStatement(): DoWhileStatement {
+    const t = this._expect(TokenType.Do, 'Expected the `do` keyword');
+    const body = this._parseLoopBody();
+
+    this._expect(TokenType.While,
+      'Expected the `while` keyword after the body of a `do` loop');
+
+    const test = this._parseExpression();
+
+    if(this._token.type === TokenType.SemiColon) {
+      this._eat();
+    }
+
+    return this._node<DoWhileStatement>(t, {
+      kind: 'DoWhileStatement',
+      body,
+      test,
+    });
+  }
+
+  private _parseForStatement(): ForStatement {
+    const t = this._expect(TokenType.For, 'Expected the `for` keyword');
+    this._expect(TokenType.OpenParen,
+      'Expected an opening parenthesis after the `for` keyword');
+
+    let init: Statement | undefined;
+    let test: Expression | undefined;
+    let update: Expression | undefined;
+
+    if(this._token.type === TokenType.Let || this._token.type === TokenType.Const) {
+      init = this._parseDeclaration();
+    } else {
+      if(this._token.type !== TokenType.SemiColon) {
+        init = this._parseExpression();
+      }
+
+      this._expect(TokenType.SemiColon,
+        'Expected a semicolon after the initializer of a `for` loop');
+    }
+
+    if(this._token.type !== TokenType.SemiColon) {
+      test = this._parseExpression();
+    }
+
+    this._expect(TokenType.SemiColon,
+      'Expected a semicolon after the condition of a `for` loop');
+
+    if(this._token.type !== TokenType.CloseParen) {
+      update = this._parseExpression();
+    }
+
+    this._expect(TokenType.CloseParen,
+      'Expected a closing parenthesis after the clauses of a `for` loop');
+
+    return this._node<ForStatement>(t, {
+      kind: 'ForStatement',
+      init,
+      test,
+      update,
+      body: this._parseLoopBody(),
+    });
+  }
+
+  private _parseLoopControlStatement(): BreakStatement | ContinueStatement {
+    const t = this._eat();
+    const isBreak = t.type === TokenType.Break;
+
+    if(this._loopDepth < 1) {
+      throw new ParserError(`Unexpected \`${isBreak ? 'break' : 'continue'}\` outside of a loop`, t, {
+        code: DiagnosticCode.JumpOutsideLoop,
+        notes: ['A function body is outside of any loop, even when the function is declared in one'],
+      });
+    }
+
+    if(this._token.type === TokenType.SemiColon) {
+      this._eat();
+    }
+
+    return this._node<BreakStatement | ContinueStatement>(t, {
+      kind: isBreak ? 'BreakStatement' : 'ContinueStatement',
+    });
+  }
+
+  private _parseFunctionDeclaration(): FunctionDeclaration {
+    const t = this._expect(TokenType.Func, 'Expected the `func` keyword');
+
+    const name = this._expect(TokenType.Identifier,
+      'Expected a function name after the `func` keyword').value;
+
+    return this._node<FunctionDeclaration>(t, {
+      kind: 'FunctionDeclaration',
+      name,
+      parameters: this._parseParameters(),
+      body: this._parseFunctionBody(),
+      docComment: t.docComment,
+    });
+  }
+
+  private _parseFunctionExpression(): FunctionExpression {
+    const t = this._expect(TokenType.Func, 'Expected the `func` keyword');
+
+    const name = this._token.type === TokenType.Identifier ?
+      this._eat().value :
+      undefined;
+
+    return this._node<FunctionExpression>(t, {
+      kind: 'FunctionExpression',
+      name,
+      parameters: this._parseParameters(),
+      body: this._parseFunctionBody(),
+    });
+  }
+
+  private _isArrowFunctionAhead(): boolean {
+    if(this._token.type === TokenType.Identifier) return this._peek().type === TokenType.Arrow;
+    if(this._token.type !== TokenType.OpenParen) return false;
+
+    let depth = 0;
+
+    // Look for the parenthesis matching the current one and check if it's followed by an arrow
+    for(let i = this._position; i < this._tokens.length; i++) {
+      const t = this._tokens[i];
+
+      if(t.type === TokenType.OpenParen) {
+        depth++;
+      } else if(t.type === TokenType.CloseParen) {
+        depth--;
+        if(depth === 0) return this._tokens[i + 1]?.type === TokenType.Arrow;
+      }
+    }
+
+    return false;
+  }
+
+  private _parseArrowFunctionExpression(): ArrowFunctionExpression {
+    const t = this._token;
+    const parameters = this._token.type === TokenType.Identifier ?
+      [this._eat().value] :
+      this._parseParameters();
+
+    this._expect(TokenType.Arrow,
+      'Expected an arrow after the parameters of a lambda');
+
+    return this._node<ArrowFunctionExpression>(t, {
+      kind: 'ArrowFunctionExpression',
+      parameters,
+      body: this._token.type === TokenType.OpenBracket ?
+        this._parseFunctionBody() :
+        this._parseExpression(),
+    });
+  }
+
+  private _parseParameters(): string[] {
+    this._expect(TokenType.OpenParen,
+      'Expected an opening parenthesis before the parameters list');
+
+    const params = [] as string[];
+
+    while(!this._eof() && this._token.type !== TokenType.CloseParen) {
+      const param = this._expect(TokenType.Identifier,
+        'Function parameters must be identifiers');
+
+      if(params.includes(param.value)) {
+        throw new ParserError(`Duplicate parameter name '${param.value}'`, param, { code: DiagnosticCode.DuplicateParameter });
+      }
+
+      params.push(param.value);
+
+      // @ts-expect-error Overloap for `this._token` is intentional because method "expect" consumes the parameter
+      if(this._token.type !== TokenType.CloseParen) {
+        this._expect(TokenType.Comma,
+          'Function parameters must be separated by a comma');
+      }
+    }
+
+    this._expect(TokenType.CloseParen,
+      'Expected a closing parenthesis after the parameters list');
+
+    return params;
+  }
+
+  private _parseFunctionBody(): BlockStatement {
+    const loopDepth = this._loopDepth;
+
+    this._loopDepth = 0;
+    this._functionDepth++;
+
+    try {
+      return this._parseBlockStatement();
+    } finally {
+      this._loopDepth = loopDepth;
+      this._functionDepth--;
+    }
+  }
+
+  private _parseReturnStatement(): ReturnStatement {
+    const t = this._expect(TokenType.Return, 'Expected the `return` keyword');
+
+    if(this._functionDepth < 1) {
+      throw new ParserError('Unexpected `return` outside of a function', t, { code: DiagnosticCode.ReturnOutsideFunction });
+    }
+
+    let value: Expression | undefined;
+
+    if(this._token.type !== TokenType.SemiColon &&
+      this._token.type !== TokenType.CloseBracket &&
+      !this._eof()) {
+      value = this._parseExpression();
+    }
+
+    if(this._token.type === TokenType.SemiColon) {
+      this._eat();
+    }
+
+    return this._node<ReturnStatement>(t, {
+      kind: 'ReturnStatement',
+      ...(value ? { value } : {}),
+    });
+  }
+
+  private _parseThrowStatement(): ThrowStatement {
+    const t = this._expect(TokenType.Throw, 'Expected the `throw` keyword');
+
+    if(this._token.type === TokenType.SemiColon ||
+      this._token.type === TokenType.CloseBracket ||
+      this._eof()) {
+      throw new ParserError('Expected an expression after `throw`', t, { code: DiagnosticCode.MissingThrowArgument });
+    }
+
+    const argument = this._parseExpression();
+
+    // @ts-expect-error Overloap for `this._token` is intentional because the expression has been consumed
+    if(this._token.type === TokenType.SemiColon) {
+      this._eat();
+    }
+
+    return this._node<ThrowStatement>(t, {
+      kind: 'ThrowStatement',
+      argument,
+    });
+  }
+
+  private _parseTryStatement(): TryStatement {
+    const t = this._expect(TokenType.Try, 'Expected the `try` keyword');
+    const block = this._parseBlockStatement();
+
+    let handler: CatchClause | undefined;
+    let finalizer: BlockStatement | undefined;
+
+    if(this._token.type === TokenType.Catch) {
+      const c = this._eat();
+      let parameter: string | undefined;
+
+      // @ts-expect-error Overloap for `this._token` is intentional because method "eat" is called after checking for the `catch` keyword
+      if(this._token.type === TokenType.OpenParen) {
+        this._eat();
+
+        parameter = this._expect(TokenType.Identifier,
+          'Expected the name of the caught error').value;
+
+        this._expect(TokenType.CloseParen,
+          'Expected a closing parenthesis after the caught error');
+      }
+
+      handler = this._node<CatchClause>(c, {
+        kind: 'CatchClause',
+        ...(parameter ? { parameter } : {}),
+        body: this._parseBlockStatement(),
+      });
+    }
+
+    if(this._token.type === TokenType.Finally) {
+      this._eat();
+      finalizer = this._parseBlockStatement();
+    }
+
+    if(!handler && !finalizer) {
+      throw new ParserError('Expected a `catch` or `finally` block after `try`', t, { code: DiagnosticCode.MissingCatchOrFinally });
     }
+
+    return this._node<TryStatement>(t, {
+      kind: 'TryStatement',
+      block,
+      ...(handler ? { handler } : {}),
+      ...(finalizer ? { finalizer } : {}),
+    });
   }
 
   private _parseDeclaration(): Statement {
@@ -97,30 +723,34 @@ export class Parser {
       this._eat();
 
       if(isConst) {
-        throw new ParserError(
-          'Constant declaration must have an initial value',
-          this._token // eslint-disable-line comma-dangle
-        );
+        throw new ParserError('Constant declaration must have an initial value', id, {
+          code: DiagnosticCode.MissingConstantInitializer,
+          notes: ['Declare it with `let` to assign its value later'],
+        });
       }
 
-      o = {
+      o = this._node<VariableDeclaration>(t, {
         kind: 'VariableDeclaration',
         constant: false,
         varname: id.value,
-      };
+        docComment: t.docComment,
+      });
     } else {
       this._expect(TokenType.Equals,
         'Expected an equals sign after the variable name');
 
-      o = {
-        constant: isConst,
-        kind: 'VariableDeclaration',
-        varname: id.value,
-        value: this._parseExpression(),
-      };
+      const value = this._parseExpression();
 
       this._expect(TokenType.SemiColon,
         'Expected a semicolon after the variable declaration');
+
+      o = this._node<VariableDeclaration>(t, {
+        constant: isConst,
+        kind: 'VariableDeclaration',
+        varname: id.value,
+        value,
+        docComment: t.docComment,
+      });
     }
 
     return o as VariableDeclaration;
@@ -131,32 +761,34 @@ export class Parser {
   }
 
   private _parseObjectExpression(): Expression {
-    if(this._token.type !== TokenType.OpenBracket) return this._parseAdditiveExpression();
+    if(this._token.type !== TokenType.OpenBracket) return this._parseBinaryExpression();
 
-    this._eat();
+    const t = this._eat();
     const props = [] as Property[];
 
     // @ts-expect-error Overloap for `this._token` is intentional because method "eat" is called after checking for the opening Bracket
     while(!this._eof() && this._token.type !== TokenType.CloseBracket) {
-      const key = this._expect(TokenType.Identifier,
-        'Object literal property must have a key').value;
+      const k = this._expect(TokenType.Identifier,
+        'Object literal property must have a key');
+
+      const key = k.value;
 
       // @ts-expect-error Overloap for `this._token` is intentional because every while loop iteration calls method "eat"
       if(this._token.type === TokenType.Comma) {
-        this._eat();
-        
-        props.push({
+        props.push(this._node<Property>(k, {
           key,
           kind: 'Property',
-        });
+        }));
+
+        this._eat();
 
         continue;
         // @ts-expect-error Overloap for `this._token` is intentional because every while loop iteration calls method "eat"
       } else if(this._token.type === TokenType.CloseBracket) {
-        props.push({
+        props.push(this._node<Property>(k, {
           key,
           kind: 'Property',
-        });
+        }));
 
         continue;
       } else {
@@ -165,11 +797,11 @@ export class Parser {
 
         const value = this._parseExpression();
 
-        props.push({
+        props.push(this._node<Property>(k, {
           key,
           value,
           kind: 'Property',
-        });
+        }));
 
         // @ts-expect-error Overloap for `this._token` is intentional because every while loop iteration calls method "eat"
         if(this._token.type !== TokenType.CloseBracket) {
@@ -182,10 +814,10 @@ export class Parser {
     this._expect(TokenType.CloseBracket,
       'Object literal must end with a closing Bracket');
 
-    return {
+    return this._node<ObjectLiteral>(t, {
       kind: 'ObjectLiteral',
       properties: props,
-    } as ObjectLiteral;
+    });
   }
 
   private _parseAssignmentExpression(): Expression {
@@ -195,61 +827,72 @@ export class Parser {
     if(this._token.type === TokenType.Equals) {
       this._eat();
       
-      o = {
+      o = this._node<AssignmentExpression>(left, {
         value: this._parseAssignmentExpression(),
         kind: 'AssignmentExpression',
         target: left,
-      } as AssignmentExpression;
+      });
     }
 
     return o;
   }
 
-  private _parseAdditiveExpression(): Expression {
-    let l = this._parseMultiplicativeExpression();
+  /**
+   * Operator-precedence (Pratt) core: parses a chain of infix operators whose
+   * binding power is greater than `minPrecedence`, as declared in `./operators`.
+   */
+  private _parseBinaryExpression(minPrecedence: number = 0): Expression {
+    let l = this._parsePrefixExpression();
 
-    while(this._token.value === '+' || this._token.value === '-') {
-      const o = this._eat().value;
-      const r = this._parseMultiplicativeExpression();
+    while(this._token.type === TokenType.BinaryOperator) {
+      const operator = getInfixOperator(this._token.value);
+      if(!operator || operator.precedence <= minPrecedence) break;
 
-      l = {
-        kind: 'BinaryExpression',
+      this._eat();
+
+      const r = this._parseBinaryExpression(operator.associativity === 'left' ?
+        operator.precedence :
+        operator.precedence - 1);
+
+      l = this._node<BinaryExpression | LogicalExpression>(l, {
+        kind: operator.kind,
         left: l,
-        operator: o,
+        operator: operator.symbol,
         right: r,
-      } as BinaryExpression;
+      } as Omit<BinaryExpression | LogicalExpression, 'span'>);
     }
 
     return l;
   }
 
-  private _parseMultiplicativeExpression(): Expression {
-    let l = this._parseCallMemberExpression();
-
-    while(['*', '**', '/', '%'].includes(this._token.value)) {
-      const o = this._eat().value;
-      const r = this._parseCallMemberExpression();
+  private _parsePrefixExpression(): Expression {
+    const operator = this._token.type === TokenType.UnaryOperator || this._token.type === TokenType.BinaryOperator ?
+      getPrefixOperator(this._token.value) :
+      undefined;
 
-      l = {
-        kind: 'BinaryExpression',
-        left: l,
-        operator: o,
-        right: r,
-      } as BinaryExpression;
-    }
+    if(!operator) return this._parseCallMemberExpression();
+    const t = this._eat();
 
-    return l;
+    return this._node<UnaryExpression>(t, {
+      kind: 'UnaryExpression',
+      operator: operator.symbol,
+      argument: this._parseBinaryExpression(operator.precedence),
+    });
   }
 
   private _parseCallMemberExpression(): Expression {
-    const m = this._parseMemberExpression();
+    let e = this._parseMemberExpression();
+
+    // Keep going while there are calls, so that `a.b().c()` is parsed as a single chain
+    while(this._token.type === TokenType.OpenParen) {
+      e = this._parseMemberExpression(this._parseCallExpression(e));
+    }
 
-    if(this._token.type === TokenType.OpenParen) return this._parseCallExpression(m);
-    return m;
+    return e;
   }
 
-  private _parseMemberExpression(): Expression {
-    let o = this._parsePrimaryExpression();
+  private _parseMemberExpression(object?: Expression): Expression {
+    let o = object ?? this._parsePrimaryExpression();
 
     while(this._token.type === TokenType.Dot ||
       this._token.type === TokenType.OpenBrace) {
@@ -262,10 +905,10 @@ export class Parser {
         prop = this._parsePrimaryExpression();
 
         if(prop.kind !== 'Identifier') {
-          throw new ParserError(
-            'Cannot use dot operator without a right-hand side identifier',
-            operator // eslint-disable-line comma-dangle
-          );
+          throw new ParserError('Cannot use dot operator without a right-hand side identifier', operator, {
+            code: DiagnosticCode.InvalidMemberAccess,
+            notes: ['Use brackets to look up a computed property, e.g. `object[key]`'],
+          });
         }
       } else {
         c = true;
@@ -275,23 +918,23 @@ export class Parser {
           'Expected a closing brace after the computed property name');
       }
 
-      o = {
+      o = this._node<MemberExpression>(o, {
         kind: 'MemberExpression',
         object: o,
         computed: c,
         property: prop,
-      } as MemberExpression;
+      });
     }
 
     return o;
   }
 
   private _parseCallExpression(callerArg: Expression): Expression {
-    let e: Expression = {
+    let e: Expression = this._node<CallExpression>(callerArg, {
       kind: 'CallExpression',
       caller: callerArg,
       arguments: this._parseArguments(),
-    } as CallExpression;
+    });
 
     if(this._token.type === TokenType.OpenParen) {
       e = this._parseCallExpression(e);
@@ -324,23 +967,93 @@ export class Parser {
     return args;
   }
 
+  private _parseArrayLiteral(): ArrayLiteral {
+    const t = this._expect(TokenType.OpenBrace, 'Expected an opening brace at the start of the array literal');
+    const elements = [] as Expression[];
+
+    while(!this._eof() && this._token.type !== TokenType.CloseBrace) {
+      elements.push(this._parseExpression());
+
+      // @ts-expect-error Overloap for `this._token` is intentional because method "parseExpression" consumes the element
+      if(this._token.type !== TokenType.CloseBrace) {
+        this._expect(TokenType.Comma,
+          'Array literal elements must be separated by a comma');
+      }
+    }
+
+    this._expect(TokenType.CloseBrace,
+      'Array literal must end with a closing brace');
+
+    return this._node<ArrayLiteral>(t, {
+      kind: 'ArrayLiteral',
+      elements,
+    });
+  }
+
+  private _parseTemplateLiteral(): TemplateLiteral {
+    const t = this._expect(TokenType.TemplateStart, 'Expected a backtick at the start of the template literal');
+
+    // There's always one more literal part than embedded expressions
+    const quasis = [''];
+    const expressions = [] as Expression[];
+
+    while(this._token.type !== TokenType.TemplateEnd) {
+      if(this._token.type === TokenType.TemplateChunk) {
+        quasis[quasis.length - 1] += this._eat().value;
+        continue;
+      }
+
+      this._expect(TokenType.TemplateExpressionStart,
+        'Unexpected token found inside template literal');
+
+      expressions.push(this._parseExpression());
+      quasis.push('');
+
+      this._expect(TokenType.TemplateExpressionEnd,
+        'Expected a closing bracket after the template literal expression');
+    }
+
+    this._eat();
+
+    return this._node<TemplateLiteral>(t, {
+      kind: 'TemplateLiteral',
+      quasis,
+      expressions,
+    });
+  }
+
   private _parsePrimaryExpression(): Expression {
-    switch(this._token.type) {
+    if(this._isArrowFunctionAhead()) return this._parseArrowFunctionExpression();
+
+    const t = this._token;
+
+    switch(t.type) {
+      case TokenType.Func:
+        return this._parseFunctionExpression();
       case TokenType.Identifier:
-        return {
+        return this._node<Identifier>(t, {
           kind: 'Identifier',
           symbol: this._eat().value,
-        } as Identifier;
+        });
       case TokenType.Integer:
-        return {
+        return this._node<IntegerLiteral>(t, {
           kind: 'IntegerLiteral',
-          value: parseInt(this._eat().value),
-        } as IntegerLiteral;
+          value: _parseInteger(this._eat().value),
+        });
       case TokenType.Decimal:
-        return {
+        return this._node<DecimalLiteral>(t, {
           kind: 'DecimalLiteral',
           value: parseFloat(this._eat().value),
-        } as DecimalLiteral;
+        });
+      case TokenType.String:
+        return this._node<StringLiteral>(t, {
+          kind: 'StringLiteral',
+          value: this._eat().value,
+        });
+      case TokenType.TemplateStart:
+        return this._parseTemplateLiteral();
+      case TokenType.OpenBrace:
+        return this._parseArrayLiteral();
       case TokenType.OpenParen: {
         this._eat();
         const e = this._parseExpression();
@@ -350,21 +1063,18 @@ export class Parser {
           'Unexpected token found inside parenthesied expression. Expected a closing parenthesis' // eslint-disable-line comma-dangle
         );
 
-        return e;
+        // The parentheses are part of the source text of the expression
+        return { ...e, span: this._spanFrom(t) };
       }
       case TokenType.Null:
         this._eat();
-        
-        return {
+
+        return this._node<NullLiteral>(t, {
           kind: 'NullLiteral',
           value: 'null',
-        } as Expression;
+        });
       default:
-        throw new UnexpectedTokenError(
-          this._token.type,
-          this._token.value,
-          this._token.locationInSource // eslint-disable-line comma-dangle
-        );
+        throw new UnexpectedTokenError(describeToken(this._token), this._token);
     }
   }
 }
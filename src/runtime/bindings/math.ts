@@ -0,0 +1,172 @@
+import { ObjectValue } from '../values';
+import { math } from '../../_internals/native/math';
+import { bindNativeModule, defineHostClass } from './native';
+
+
+defineHostClass({
+  name: 'Vector',
+  hostType: math.Vector,
+  properties: ['x', 'y', 'z', 'isFreezed'],
+  methods: {
+    magnitude: [],
+    normalize: [],
+    add: ['<Vector>'],
+    subtract: ['<Vector>'],
+    dot: ['<Vector>'],
+    cross: ['<Vector>'],
+    scale: ['number'],
+    freeze: [],
+    serialize: [],
+  },
+  operators: {
+    '+': [{ operand: '<Vector>', method: 'add' }],
+    '-': [{ operand: '<Vector>', method: 'subtract' }],
+    '*': [{ operand: 'number', method: 'scale', commutative: true }],
+  },
+  freezeMethod: 'freeze',
+  format: v => `Vector(${v.x}, ${v.y}, ${v.z})`,
+});
+
+defineHostClass({
+  name: 'Vector2D',
+  hostType: math.Vector2D,
+  properties: ['x', 'y', 'isFreezed'],
+  methods: {
+    magnitude: [],
+    normalize: [],
+    add: ['<Vector2D>'],
+    subtract: ['<Vector2D>'],
+    dot: ['<Vector2D>'],
+    scale: ['number'],
+    freeze: [],
+    serialize: [],
+  },
+  operators: {
+    '+': [{ operand: '<Vector2D>', method: 'add' }],
+    '-': [{ operand: '<Vector2D>', method: 'subtract' }],
+    '*': [{ operand: 'number', method: 'scale', commutative: true }],
+  },
+  freezeMethod: 'freeze',
+  format: v => `Vector2D(${v.x}, ${v.y})`,
+});
+
+defineHostClass({
+  name: 'Point',
+  hostType: math.Point,
+  properties: ['x', 'y'],
+  methods: {
+    add: ['<Point>'],
+    subtract: ['<Point>'],
+    scale: ['number'],
+    freeze: [],
+  },
+  operators: {
+    '+': [{ operand: '<Point>', method: 'add' }],
+    '-': [{ operand: '<Point>', method: 'subtract' }],
+    '*': [{ operand: 'number', method: 'scale', commutative: true }],
+  },
+  freezeMethod: 'freeze',
+  format: p => `Point(${p.x}, ${p.y})`,
+});
+
+
+// Integers get an exact result, which quickly outgrows the float range
+function _factorial(x: number): number | bigint {
+  if(!Number.isInteger(x) || x < 0) return math.factorial(x);
+
+  let result = 1n;
+
+  for(let i = 2n; i <= BigInt(x); i++) {
+    result *= i;
+  }
+
+  return result;
+}
+
+
+export function createMathBindings(): ObjectValue {
+  return bindNativeModule('math', {
+    // Built-in functions
+    sqrt: [math.sqrt, ['number']],
+    cbrt: [math.cbrt, ['number']],
+    root: [math.root, ['number', 'number?']],
+    pow: [math.pow, ['number', 'number']],
+    exp: [math.exp, ['number']],
+    expm1: [math.expm1, ['number']],
+    log: [math.log, ['number']],
+    log2: [math.log2, ['number']],
+    log10: [math.log10, ['number']],
+    log1p: [math.log1p, ['number']],
+    abs: [math.abs, ['number']],
+    sign: [math.sign, ['number']],
+    cos: [math.cos, ['number']],
+    cosh: [math.cosh, ['number']],
+    acos: [math.acos, ['number']],
+    acosh: [math.acosh, ['number']],
+    sin: [math.sin, ['number']],
+    sinh: [math.sinh, ['number']],
+    asin: [math.asin, ['number']],
+    asinh: [math.asinh, ['number']],
+    tan: [math.tan, ['number']],
+    tanh: [math.tanh, ['number']],
+    atan: [math.atan, ['number']],
+    atan2: [math.atan2, ['number', 'number']],
+    atanh: [math.atanh, ['number']],
+    ceil: [math.ceil, ['number']],
+    floor: [math.floor, ['number']],
+    round: [math.round, ['number']],
+    trunc: [math.trunc, ['number']],
+    fround: [math.fround, ['number']],
+    clz32: [math.clz32, ['number']],
+    imul: [math.imul, ['number', 'number']],
+    hypot: [math.hypot, ['...number']],
+    max: [math.max, ['...number']],
+    min: [math.min, ['...number']],
+    random: [math.pseudorand, []],
+    randomInt: [(start: number, end?: number) => math.random.integer(start, end), ['number', 'number?']],
+    permutation: [(n: number) => math.random.permutation(n), ['number']],
+
+    // Host classes
+    Vector: [(x: number, y: number, z: number) => new math.Vector(x, y, z), ['number', 'number', 'number'], {
+      from: [math.Vector.from, ['string']],
+    }],
+    Vector2D: [(x: number, y: number) => new math.Vector2D(x, y), ['number', 'number'], {
+      from: [math.Vector2D.from, ['string']],
+    }],
+    Point: [(x: number, y: number) => new math.Point(x, y), ['number', 'number'], {
+      fromVector: [(vec: math.Vector | math.Vector2D, options?: math.PointFromVectorOptions) => math.Point.fromVector(vec, options), ['<Vector>|<Vector2D>', 'object?']],
+    }],
+
+    // Numeric utilities
+    clamp: [math.clamp, ['number', 'number', 'number']],
+    arithmeticAverage: [math.arithmeticAverage, ['...number']],
+    geometricAverage: [math.geometricAverage, ['...number']],
+    isPowerOfTwo: [math.isPowerOfTwo, ['number']],
+    roundToPowerOfTwo: [math.roundToPowerOfTwo, ['number']],
+    roundToNearestMultiple: [math.roundToNearestMultiple, ['number']],
+    isPrime: [math.isPrime, ['number']],
+    factorial: [_factorial, ['number']],
+    fibonacciBinet: [math.fibonacciBinet, ['number']],
+    getFunctionValues: [math.getFunctionValues, ['function', 'number', 'number', 'number?']],
+
+    // Activation functions
+    sigmoid: [math.sigmoid, ['number']],
+    sigmoid2: [math.sigmoid2, ['number']],
+    elu: [math.elu, ['number', 'number?']],
+    leakyRelu: [math.leakyRelu, ['number', 'number?']],
+    softplus: [math.softplus, ['number']],
+    perceptron: [math.perceptron, ['number']],
+    relu: [math.relu, ['number']],
+    softmax: [math.softmax, ['number[]']],
+  }, {
+    PI: math.PI,
+    E: math.E,
+    LOG2E: math.LOG2E,
+    LOG10E: math.LOG10E,
+    LN2: math.LN2,
+    LN10: math.LN10,
+    SQRT2: math.SQRT2,
+    SQRT1_2: math.SQRT1_2,
+    infinity: math.infinity,
+  });
+}
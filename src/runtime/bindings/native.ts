@@ -0,0 +1,323 @@
+import Environment from '../env';
+import { invoke, UncaughtError } from '../interpreter';
+import { enforceNumericPolicy } from '../numeric';
+import { RuntimeError, RuntimeTypeError } from '../../_internals/errors';
+import type { Dict } from '../../_internals/types';
+
+import {
+  ArrayValue,
+  BooleanValue,
+  HostDescriptor,
+  HostValue,
+  MAKE_ARRAY,
+  MAKE_BOOL,
+  MAKE_HOST,
+  MAKE_INT,
+  MAKE_NATIVE_METHOD,
+  MAKE_NULL,
+  MAKE_NUMBER,
+  MAKE_STRING,
+  NativeFunctionValue,
+  numberOf,
+  NumberValue,
+  ObjectValue,
+  RuntimeValue,
+  runtimeValueToString,
+  StringValue,
+} from '../values';
+
+
+/**
+ * Host class parameters are written as the class name between angle brackets, e.g. `<Vector>`,
+ * and several host classes can be accepted by separating them with a pipe (`<Vector>|<Vector2D>`).
+ */
+export type ParameterType = 'number' | 'boolean' | 'string' | 'number[]' | 'function' | 'object' | `<${string}>`;
+
+/**
+ * A parameter is either required (`number`), optional (`number?`) or
+ * variadic (`...number`). Optional and variadic parameters must come last.
+ */
+export type ParameterSignature = ParameterType | `${ParameterType}?` | `...${ParameterType}`;
+
+export type NativeBinding = readonly [
+  (...args: any[]) => unknown,
+  readonly ParameterSignature[],
+  { readonly [key: string]: NativeBinding }?,
+];
+
+export type HostOperator = {
+  readonly operand: ParameterType;
+  readonly method: string;
+  readonly commutative?: boolean;
+};
+
+export interface HostClass<T extends object> {
+  readonly name: string;
+  readonly hostType: abstract new (...args: any[]) => T;
+  readonly properties: readonly string[];
+  readonly methods: { readonly [key: string]: readonly ParameterSignature[] };
+  readonly operators?: { readonly [operator: string]: readonly HostOperator[] };
+  readonly freezeMethod?: string;
+  readonly format: (instance: T) => string;
+}
+
+
+const article: { readonly [key: string]: string } = {
+  'number': 'a number',
+  'boolean': 'a boolean',
+  'string': 'a string',
+  'number[]': 'an array of numbers',
+  'function': 'a function',
+  'object': 'an object',
+};
+
+const hostClasses: Map<abstract new (...args: any[]) => object, HostDescriptor> = new Map();
+
+
+/**
+ * Converts a value returned by host code into a runtime value.
+ */
+export function toRuntimeValue(value: unknown): RuntimeValue {
+  if(value === null || typeof value === 'undefined') return MAKE_NULL();
+  if(typeof value === 'number') return MAKE_NUMBER(value);
+  if(typeof value === 'bigint') return MAKE_INT(value);
+  if(typeof value === 'boolean') return MAKE_BOOL(value);
+  if(typeof value === 'string') return MAKE_STRING(value);
+  if(Array.isArray(value)) return MAKE_ARRAY(value.map(toRuntimeValue));
+  if(value instanceof Error) return MAKE_STRING(value.message);
+
+  for(const [hostType, descriptor] of hostClasses) {
+    if(value instanceof hostType) return MAKE_HOST(value, descriptor);
+  }
+
+  if(typeof value === 'object') {
+    const properties = new Map<string, RuntimeValue>();
+
+    for(const [key, v] of Object.entries(value)) {
+      properties.set(key, toRuntimeValue(v));
+    }
+
+    return {
+      type: 'object',
+      readonly: false,
+      properties,
+    } as ObjectValue;
+  }
+
+  throw new RuntimeTypeError(`Cannot convert a host value of type '${typeof value}' into a runtime value`);
+}
+
+/**
+ * Converts a runtime value into its plain host counterpart, unwrapping host objects.
+ */
+function _toHostValue(value: RuntimeValue): unknown {
+  switch(value.type) {
+    case 'null':
+      return undefined;
+    case 'number':
+      return numberOf(value as NumberValue);
+    case 'boolean':
+    case 'string':
+      return (value as BooleanValue | StringValue).value;
+    case 'array':
+      return (value as ArrayValue).elements.map(_toHostValue);
+    case 'object':
+      return Object.fromEntries([...(value as ObjectValue).properties].map(([k, v]) => [k, _toHostValue(v)]));
+    case 'host':
+      return (value as HostValue).instance;
+    default:
+      throw new RuntimeTypeError(`Cannot pass a value of type '${value.type}' to host code`);
+  }
+}
+
+function _matches(value: RuntimeValue, type: ParameterType): boolean {
+  if(type.startsWith('<')) return value.type === 'host' && type.split('|').includes(`<${(value as HostValue).descriptor.name}>`);
+
+  switch(type) {
+    case 'number[]':
+      return value.type === 'array' && (value as ArrayValue).elements.every(item => item.type === 'number');
+    case 'function':
+      return value.type === 'function' || value.type === 'native_function';
+    default:
+      return value.type === type;
+  }
+}
+
+function _fromRuntimeValue(value: RuntimeValue, type: ParameterType, env: Environment, describe: () => string): unknown {
+  if(!_matches(value, type)) {
+    const expected = type.split('|').map(t => article[t] ?? `a ${t.slice(1, -1)}`).join(' or ');
+    throw new RuntimeTypeError(`${describe()} must be ${expected}, but got ${value.type === 'host' ? (value as HostValue).descriptor.name : value.type}`);
+  }
+
+  if(type !== 'function') return _toHostValue(value);
+
+  return (...args: number[]) => {
+    const result = invoke(value, args.map(arg => MAKE_NUMBER(arg)), env);
+
+    if(result.type !== 'number') {
+      throw new RuntimeTypeError(`${describe()} must return a number, but returned ${result.type}`);
+    }
+
+    return numberOf(result as NumberValue);
+  };
+}
+
+function _callHost(name: string, fn: () => unknown): RuntimeValue {
+  try {
+    return toRuntimeValue(fn());
+  } catch (err: any) {
+    // Errors of the script, e.g. raised by a callback, go through untouched
+    if(err instanceof RuntimeError || err instanceof UncaughtError) throw err;
+    throw new RuntimeError(`${name}(): ${err?.message ?? String(err)}`);
+  }
+}
+
+// Calls a method a host class lists, which can't be seen through the `object` type of its instances
+function _callMethod(instance: object, key: string, args: unknown[]): unknown {
+  const method = (instance as unknown as Dict<unknown>)[key];
+
+  if(typeof method !== 'function') {
+    throw new RuntimeTypeError(`\`${key}\` is not a method of ${instance.constructor.name}`);
+  }
+
+  return method.apply(instance, args);
+}
+
+
+/**
+ * Wraps a host function as a native function value, checking the number and
+ * types of the arguments against `parameters` before calling it.
+ *
+ * @param name - The name shown in error messages, e.g. `math.sqrt`.
+ * @param fn - The host function to be called.
+ * @param parameters - The signature of the host function.
+ * @returns The native function value.
+ */
+export function bindNativeFunction(name: string, fn: (...args: any[]) => unknown, parameters: readonly ParameterSignature[]): NativeFunctionValue {
+  const variadic = parameters.length > 0 && parameters[parameters.length - 1].startsWith('...');
+  const required = parameters.filter(p => !p.endsWith('?') && !p.startsWith('...')).length;
+  const max = variadic ? Infinity : parameters.length;
+
+  const handler = (env: Environment, ...args: RuntimeValue[]): RuntimeValue => {
+    if(args.length < required || args.length > max) {
+      const expected = required === max ? `${required}` : max === Infinity ? `at least ${required}` : `${required} to ${max}`;
+      throw new RuntimeTypeError(`${name}() expects ${expected} argument${required === 1 && max === 1 ? '' : 's'}, but got ${args.length}`);
+    }
+
+    const values = args.map((arg, i) => {
+      const signature = parameters[Math.min(i, parameters.length - 1)];
+      const type = signature.replace(/^\.\.\.|\?$/g, '') as ParameterType;
+
+      return _fromRuntimeValue(arg, type, env, () => `Argument ${i + 1} of ${name}()`);
+    });
+
+    const result = _callHost(name, () => fn(...values));
+
+    if(result.type === 'number' && (result as NumberValue).kind !== 'int') {
+      const operands = values.flat().filter((v): v is number => typeof v === 'number');
+      enforceNumericPolicy(numberOf(result as NumberValue), operands, () => `${name}(${args.map(runtimeValueToString).join(', ')})`, env);
+    }
+
+    return result;
+  };
+
+  Object.defineProperty(handler, 'name', { value: name });
+  return MAKE_NATIVE_METHOD(handler, true);
+}
+
+/**
+ * Builds a readonly object value from a table of host functions and numeric constants.
+ *
+ * @param name - The name of the module, used to prefix the name of every function.
+ * @param functions - The host functions and their signatures, keyed by property name.
+ * @param constants - The numeric constants, exposed as readonly numbers.
+ * @returns The readonly object value.
+ */
+export function bindNativeModule(
+  name: string,
+  functions: { readonly [key: string]: NativeBinding },
+  constants: { readonly [key: string]: number } = {} // eslint-disable-line comma-dangle
+): ObjectValue {
+  const properties = new Map<string, RuntimeValue>();
+
+  for(const key in constants) {
+    properties.set(key, MAKE_NUMBER(constants[key], true));
+  }
+
+  for(const key in functions) {
+    const [fn, parameters, statics] = functions[key];
+    const f = bindNativeFunction(`${name}.${key}`, fn, parameters);
+
+    if(statics) {
+      f.properties = bindNativeModule(`${name}.${key}`, statics).properties;
+    }
+
+    properties.set(key, f);
+  }
+
+  return {
+    type: 'object',
+    readonly: true,
+    properties,
+  } as ObjectValue;
+}
+
+/**
+ * Registers a host class so that its instances can be used from scripts, reading
+ * the listed properties, calling the listed methods and applying the listed operators.
+ * Once the `freezeMethod` is called on an instance, scripts cannot assign to it anymore.
+ *
+ * @param spec - The description of the host class.
+ * @returns The descriptor attached to every runtime value wrapping an instance of the class.
+ */
+export function defineHostClass<T extends object>(spec: HostClass<T>): HostDescriptor {
+  const frozen = new WeakSet<object>();
+
+  const descriptor: HostDescriptor = {
+    name: spec.name,
+    getMember(instance: object, key: string): RuntimeValue | undefined {
+      if(spec.properties.includes(key)) return toRuntimeValue((instance as unknown as Dict<unknown>)[key]);
+      if(!Object.prototype.hasOwnProperty.call(spec.methods, key)) return undefined;
+
+      return bindNativeFunction(`${spec.name}.${key}`, (...args: unknown[]) => {
+        const result = _callMethod(instance, key, args);
+
+        if(key === spec.freezeMethod) {
+          frozen.add(instance);
+        }
+
+        return result;
+      }, spec.methods[key]);
+    },
+    isFrozen(instance: object): boolean {
+      return frozen.has(instance);
+    },
+    operate(operator: string, leftHandSide: RuntimeValue, rightHandSide: RuntimeValue): RuntimeValue | undefined {
+      for(const o of spec.operators?.[operator] ?? []) {
+        let self: RuntimeValue | null = null;
+        let operand: RuntimeValue | null = null;
+
+        if(leftHandSide.type === 'host' && (leftHandSide as HostValue).descriptor === descriptor && _matches(rightHandSide, o.operand)) {
+          [self, operand] = [leftHandSide, rightHandSide];
+        } else if(o.commutative && rightHandSide.type === 'host' && (rightHandSide as HostValue).descriptor === descriptor && _matches(leftHandSide, o.operand)) {
+          [self, operand] = [rightHandSide, leftHandSide];
+        }
+
+        if(!self || !operand) continue;
+
+        const { instance } = self as HostValue;
+        const arg = _toHostValue(operand);
+
+        return _callHost(`${spec.name}.${o.method}`, () => _callMethod(instance, o.method, [arg]));
+      }
+
+      return undefined;
+    },
+    format(instance: object): string {
+      return spec.format(instance as T);
+    },
+  };
+
+  hostClasses.set(spec.hostType, descriptor);
+  return descriptor;
+}
@@ -0,0 +1,59 @@
+import { RuntimeError, RuntimeTypeError } from '../../_internals/errors';
+import { BooleanValue, MAKE_INT, MAKE_NUMBER, numberOf, NumberValue, RuntimeValue, StringValue } from '../values';
+
+
+/**
+ * Converts a value into an integer, truncating floats towards zero.
+ * Strings must hold a decimal integer, e.g. `"-42"`.
+ */
+export function toInteger(value?: RuntimeValue): NumberValue {
+  switch(value?.type) {
+    case 'number': {
+      const n = value as NumberValue;
+      if(n.kind === 'int') return n;
+
+      if(!Number.isFinite(n.value)) {
+        throw new RuntimeError(`Cannot convert ${n.value} to an integer`);
+      }
+
+      return MAKE_INT(Math.trunc(n.value as number));
+    }
+    case 'string': {
+      const s = (value as StringValue).value.trim();
+
+      if(!/^[+-]?\d+$/.test(s)) {
+        throw new RuntimeError(`Cannot convert "${(value as StringValue).value}" to an integer`);
+      }
+
+      return MAKE_INT(BigInt(s));
+    }
+    case 'boolean':
+      return MAKE_INT((value as BooleanValue).value ? 1 : 0);
+    default:
+      throw new RuntimeTypeError(`int() expects a number, a string or a boolean, but got ${value?.type ?? 'nothing'}`);
+  }
+}
+
+/**
+ * Converts a value into a float. Integers beyond the safe range are rounded.
+ */
+export function toFloat(value?: RuntimeValue): NumberValue {
+  switch(value?.type) {
+    case 'number':
+      return MAKE_NUMBER(numberOf(value as NumberValue));
+    case 'string': {
+      const s = (value as StringValue).value.trim();
+      const n = Number(s);
+
+      if(s.length === 0 || Number.isNaN(n)) {
+        throw new RuntimeError(`Cannot convert "${(value as StringValue).value}" to a float`);
+      }
+
+      return MAKE_NUMBER(n);
+    }
+    case 'boolean':
+      return MAKE_NUMBER((value as BooleanValue).value ? 1 : 0);
+    default:
+      throw new RuntimeTypeError(`float() expects a number, a string or a boolean, but got ${value?.type ?? 'nothing'}`);
+  }
+}
@@ -1,53 +1,87 @@
 import native from '../_internals/native';
-import { Exception } from '../_internals/errors';
-import { MAKE_NATIVE_METHOD, MAKE_BOOL, MAKE_NULL, RuntimeValue, ObjectValue } from './values';
+import { RuntimeError, RuntimeReferenceError, RuntimeTypeError } from '../_internals/errors';
+import { createMathBindings } from './bindings/math';
+import { toFloat, toInteger } from './bindings/numbers';
+import { MAKE_NATIVE_METHOD, MAKE_BOOL, MAKE_ERROR, MAKE_NULL, RuntimeValue, StringValue } from './values';
 
 
-export function createGlobalEnvironment(parent?: Environment): Environment {
-  const env = new Environment(parent);
+/**
+ * How arithmetic handles results that aren't finite numbers: `ieee` lets
+ * `Infinity` and `NaN` through, `strict` raises an `ArithmeticError` instead.
+ */
+export type NumericPolicy = 'ieee' | 'strict';
 
-  env.declare('null', MAKE_NULL(true));
-  env.declare('true', MAKE_BOOL(true, true));
-  env.declare('false', MAKE_BOOL(false, true));
+export interface EnvironmentOptions {
+  readonly numericPolicy?: NumericPolicy;
+}
+
+
+export function createGlobalEnvironment(parent?: Environment, options?: EnvironmentOptions): Environment {
+  const env = new Environment(parent, options);
+
+  env.declare('null', MAKE_NULL(true), true);
+  env.declare('true', MAKE_BOOL(true, true), true);
+  env.declare('false', MAKE_BOOL(false, true), true);
 
   env.declare('printf', MAKE_NATIVE_METHOD((_, ...args) => {
     native.printf(args.shift() ?? MAKE_NULL(), ...args);
     return MAKE_NULL();
-  }, true));
+  }, true), true);
 
   env.declare('print', MAKE_NATIVE_METHOD((_, ...args) => {
     if(args.length > 1) {
-      throw new Exception('print() takes only one argument');
+      throw new RuntimeTypeError('print() takes only one argument');
     }
 
     native.print(args.shift() ?? MAKE_NULL());
     return MAKE_NULL();
   }, true), true);
 
-  env.declare('math', {
-    type: 'object',
-    readonly: true,
-    properties: new Map<string, RuntimeValue>(),
-  } as ObjectValue, true);
+  env.declare('Error', MAKE_NATIVE_METHOD(function Error(_, message, kind) {
+    if(message?.type !== 'string' || (kind && kind.type !== 'string')) {
+      throw new RuntimeTypeError('Error() expects a message and an optional kind, both strings');
+    }
+
+    return MAKE_ERROR((message as StringValue).value, (kind as StringValue | undefined)?.value);
+  }, true), true);
+
+  env.declare('int', MAKE_NATIVE_METHOD(function int(_, value) {
+    return toInteger(value);
+  }, true), true);
+
+  env.declare('float', MAKE_NATIVE_METHOD(function float(_, value) {
+    return toFloat(value);
+  }, true), true);
+
+  env.declare('math', createMathBindings(), true);
 
   return env;
 }
 
 export class Environment {
   private readonly _vars: Map<string, RuntimeValue> = new Map<string, RuntimeValue>();
+  private readonly _constants: Set<string> = new Set<string>();
 
   constructor(
-    protected readonly _parent?: Environment // eslint-disable-line comma-dangle
+    protected readonly _parent?: Environment,
+    private readonly _options: EnvironmentOptions = {} // eslint-disable-line comma-dangle
   ) { }
 
+  /**
+   * The options of the root environment, shared by every scope below it.
+   */
+  public get options(): EnvironmentOptions {
+    return this._parent ? this._parent.options : this._options;
+  }
+
   public declare(name: string, value: RuntimeValue, readonly?: boolean): RuntimeValue {
     if(this._vars.has(name)) {
-      throw new Exception(`Cannot redeclare variable '${name}' because it is already declared in this scope`);
+      throw new RuntimeError(`Cannot redeclare variable '${name}' because it is already declared in this scope`);
     }
 
-    if(typeof value.readonly !== 'boolean' &&
-      typeof readonly === 'boolean') {
-      Object.assign(value, { readonly });
+    // Constness belongs to the binding, values are shared between variables
+    if(readonly) {
+      this._constants.add(name);
     }
 
     this._vars.set(name, value);
@@ -58,18 +92,17 @@ export class Environment {
     if(this._vars.has(name)) return this;
 
     if(!this._parent) {
-      throw new Exception(error ?? `Undefined variable '${name}'`);
+      throw new RuntimeReferenceError(error ?? `Undefined variable '${name}'`);
     }
 
-    return this._parent.resolve(name);
+    return this._parent.resolve(name, error);
   }
 
   public assign(name: string, value: RuntimeValue): RuntimeValue {
     const env = this.resolve(name, `Cannot assing to undefined variable '${name}'`);
-    const v = env._vars.get(name)!;
 
-    if(v.readonly) {
-      throw new Exception(`Cannot assign constant variable '${name}'`);
+    if(env._constants.has(name)) {
+      throw new RuntimeTypeError(`Cannot assign constant variable '${name}'`);
     }
 
     env._vars.set(name, value);
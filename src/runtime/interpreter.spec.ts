@@ -0,0 +1,569 @@
+import Parser from '../parsing/parser';
+import { registerInfixOperator, unregisterInfixOperator } from '../parsing/operators';
+import {
+  defineBinaryOperator,
+  defineOperatorHandler,
+  evaluate,
+  OperatorHandler,
+  removeOperatorHandler,
+  UncaughtError,
+  undefineBinaryOperator,
+} from './interpreter';
+import { createGlobalEnvironment, EnvironmentOptions } from './env';
+import { ArrayValue, MAKE_ARRAY, MAKE_NUMBER, numberOf, NumberValue, RuntimeValue, runtimeValueToString } from './values';
+
+
+function run(source: string, options?: EnvironmentOptions): RuntimeValue {
+  return evaluate(new Parser(source).parse(), createGlobalEnvironment(undefined, options));
+}
+
+const concatenateArrays: OperatorHandler = (operator, lhs, rhs) => {
+  if(operator !== '+' || lhs.type !== 'array' || rhs.type !== 'array') return undefined;
+  return MAKE_ARRAY([...(lhs as ArrayValue).elements, ...(rhs as ArrayValue).elements]);
+};
+
+
+describe('runtime/interpreter', () => {
+  afterEach(() => {
+    unregisterInfixOperator('<+>');
+    undefineBinaryOperator('<+>');
+    removeOperatorHandler('array', concatenateArrays);
+  });
+
+  test('it should evaluate the consequent of a truthy condition', () => {
+    expect(run('let x = 0; if true then { x = 1; } x')).toEqual({ type: 'number', kind: 'int', value: 1, readonly: false });
+    expect(run('let x = 0; if 2 { x = 1; } x')).toEqual({ type: 'number', kind: 'int', value: 1, readonly: false });
+  });
+
+  test('it should evaluate the alternate of a falsy condition', () => {
+    expect(run('let x = 0; if false { x = 1; } else { x = 2; } x')).toEqual({ type: 'number', kind: 'int', value: 2, readonly: false });
+    expect(run('let x = 0; if null { x = 1; } else { x = 2; } x')).toEqual({ type: 'number', kind: 'int', value: 2, readonly: false });
+    expect(run('let x = 0; if 0 { x = 1; } else { x = 2; } x')).toEqual({ type: 'number', kind: 'int', value: 2, readonly: false });
+  });
+
+  test('it should follow `else if` chains', () => {
+    const source = 'let x = 0; if 0 { x = 1; } else if (0) { x = 2; } else if 1 then { x = 3; } else { x = 4; } x';
+    expect(run(source)).toEqual({ type: 'number', kind: 'int', value: 3, readonly: false });
+  });
+
+  test('it should scope declarations to the branch body', () => {
+    expect(() => run('if true { let y = 1; } y')).toThrow();
+  });
+
+  test('it should loop while the condition is truthy', () => {
+    expect(run('let n = 4; let s = 0; while n { s = s + n; n = n - 1; } s')).toEqual({ type: 'number', kind: 'int', value: 10, readonly: false });
+  });
+
+  test('it should run the body of a `do` loop at least once', () => {
+    expect(run('let n = 0; do { n = n + 1; } while false; n')).toEqual({ type: 'number', kind: 'int', value: 1, readonly: false });
+  });
+
+  test('it should run a `for` loop with its own scope', () => {
+    expect(run('let s = 0; for (let i = 3; i; i = i - 1) { s = s + i; } s')).toEqual({ type: 'number', kind: 'int', value: 6, readonly: false });
+    expect(() => run('for (let i = 0; false;) { } i')).toThrow();
+  });
+
+  test('it should honour `break` and `continue`', () => {
+    expect(run('let n = 0; while true { n = n + 1; if n - 3 { continue; } break; } n')).toEqual({ type: 'number', kind: 'int', value: 3, readonly: false });
+    expect(run('let n = 0; for (;;) { n = n + 1; break; } n')).toEqual({ type: 'number', kind: 'int', value: 1, readonly: false });
+  });
+
+  test('it should reject `break` outside of a loop', () => {
+    expect(() => new Parser('break;').parse()).toThrow();
+  });
+
+  test('it should declare and call user-defined functions', () => {
+    expect(run('func add(a, b) { return a + b; } add(2, 3)')).toEqual({ type: 'number', kind: 'int', value: 5, readonly: false });
+    expect(run('func nothing() { } nothing()')).toMatchObject({ type: 'null', value: null });
+  });
+
+  test('it should capture the defining environment as a closure', () => {
+    const source = 'func adder(a) { func add(b) { return a + b; } return add; } let inc = adder(1); inc(41)';
+    expect(run(source)).toEqual({ type: 'number', kind: 'int', value: 42, readonly: false });
+  });
+
+  test('it should support recursion', () => {
+    const source = 'func sum(n) { if n { return n + sum(n - 1); } return 0; } sum(4)';
+    expect(run(source)).toEqual({ type: 'number', kind: 'int', value: 10, readonly: false });
+  });
+
+  test('it should check the arity of user-defined functions', () => {
+    expect(() => run('func f(a, b) { } f(1)')).toThrow('expects 2 arguments, but got 1');
+    expect(() => run('func f(a) { } f(1, 2)')).toThrow('expects 1 argument, but got 2');
+  });
+
+  test('it should reject `return` outside of a function', () => {
+    expect(() => new Parser('return 1;').parse()).toThrow();
+    expect(() => new Parser('while true { func f() { break; } }').parse()).toThrow();
+  });
+
+  test('it should evaluate anonymous function expressions', () => {
+    expect(run('let sq = func (x) { return x * x; }; sq(3)')).toEqual({ type: 'number', kind: 'int', value: 9, readonly: false });
+    expect(run('let f = func fact(n) { if n { return n * fact(n - 1); } return 1; }; f(4)')).toEqual({ type: 'number', kind: 'int', value: 24, readonly: false });
+    expect(() => run('let f = func fact(n) { return n; }; fact(1)')).toThrow();
+  });
+
+  test('it should evaluate arrow-style lambdas', () => {
+    expect(run('let sq = (x) => x * x; sq(4)')).toEqual({ type: 'number', kind: 'int', value: 16, readonly: false });
+    expect(run('let inc = x => x + 1; inc(1)')).toEqual({ type: 'number', kind: 'int', value: 2, readonly: false });
+    expect(run('let add = (a, b) => { return a + b; }; add(1, 2)')).toEqual({ type: 'number', kind: 'int', value: 3, readonly: false });
+    expect(run('let k = () => 7; k()')).toEqual({ type: 'number', kind: 'int', value: 7, readonly: false });
+  });
+
+  test('it should pass lambdas to other functions', () => {
+    expect(run('func twice(f, x) { return f(f(x)); } twice((x) => x * 3, 2)')).toEqual({ type: 'number', kind: 'int', value: 18, readonly: false });
+    expect(run('((x) => x * x)(5)')).toEqual({ type: 'number', kind: 'int', value: 25, readonly: false });
+    expect(run('(2 + 3) * 2')).toEqual({ type: 'number', kind: 'int', value: 10, readonly: false });
+  });
+
+  test('it should compare numbers', () => {
+    expect(run('1 < 2')).toMatchObject({ type: 'boolean', value: true });
+    expect(run('2 <= 2')).toMatchObject({ type: 'boolean', value: true });
+    expect(run('1 > 2')).toMatchObject({ type: 'boolean', value: false });
+    expect(run('3 >= 2 + 2')).toMatchObject({ type: 'boolean', value: false });
+  });
+
+  test('it should test values for equality', () => {
+    expect(run('1 + 1 == 2')).toMatchObject({ type: 'boolean', value: true });
+    expect(run('1 != 2')).toMatchObject({ type: 'boolean', value: true });
+    expect(run('null == 0')).toMatchObject({ type: 'boolean', value: false });
+    expect(run('1 < 2 == 2 < 3')).toMatchObject({ type: 'boolean', value: true });
+  });
+
+  test('it should evaluate logical operators with short-circuit', () => {
+    expect(run('1 < 2 && 2 < 3')).toMatchObject({ type: 'boolean', value: true });
+    expect(run('false || 1 > 2')).toMatchObject({ type: 'boolean', value: false });
+    expect(run('true || undefinedCall()')).toMatchObject({ type: 'boolean', value: true });
+    expect(run('false && undefinedCall()')).toMatchObject({ type: 'boolean', value: false });
+    expect(run('false || true && false')).toMatchObject({ type: 'boolean', value: false });
+  });
+
+  test('it should negate values with `!`', () => {
+    expect(run('!0')).toMatchObject({ type: 'boolean', value: true });
+    expect(run('!!1')).toMatchObject({ type: 'boolean', value: true });
+    expect(run('!(1 < 2) || 3 == 3')).toMatchObject({ type: 'boolean', value: true });
+  });
+
+  test('it should drive loops with comparisons', () => {
+    expect(run('let s = 0; for (let i = 0; i < 5; i = i + 1) { s = s + i; } s')).toEqual({ type: 'number', kind: 'int', value: 10, readonly: false });
+  });
+
+  test('it should respect operator precedence and associativity', () => {
+    expect(run('1 + 2 * 3')).toEqual({ type: 'number', kind: 'int', value: 7, readonly: false });
+    expect(run('2 * 3 ** 2')).toEqual({ type: 'number', kind: 'int', value: 18, readonly: false });
+    expect(run('2 ** 3 ** 2')).toEqual({ type: 'number', kind: 'int', value: 512, readonly: false });
+    expect(run('10 / 5 / 2')).toEqual({ type: 'number', kind: 'int', value: 1, readonly: false });
+    expect(run('!1 ** 0')).toMatchObject({ type: 'boolean', value: false });
+  });
+
+  test('it should evaluate custom infix operators', () => {
+    registerInfixOperator('<+>', 55);
+
+    defineBinaryOperator('<+>', (lhs, rhs) => {
+      return MAKE_NUMBER(Math.hypot(numberOf(lhs as NumberValue), numberOf(rhs as NumberValue)));
+    });
+
+    expect(run('3 <+> 4')).toMatchObject({ type: 'number', value: 5 });
+    expect(run('0 + 3 <+> 2 * 2')).toMatchObject({ type: 'number', value: 5 });
+    expect(() => registerInfixOperator('<+>', 55)).toThrow();
+    expect(() => registerInfixOperator('=', 55)).toThrow();
+    expect(() => unregisterInfixOperator('+')).toThrow('The built-in infix operator `+` cannot be unregistered');
+  });
+
+  test('it should forget custom infix operators once they are unregistered', () => {
+    registerInfixOperator('<+>', 55);
+    defineBinaryOperator('<+>', lhs => lhs);
+
+    unregisterInfixOperator('<+>');
+    undefineBinaryOperator('<+>');
+
+    expect(() => run('3 <+> 4')).toThrow();
+    expect(() => registerInfixOperator('<+>', 55)).not.toThrow();
+    expect(() => defineBinaryOperator('<+>', lhs => lhs)).not.toThrow();
+  });
+
+  test('it should evaluate unary operators', () => {
+    expect(run('let a = 5; let b = 3; a - b')).toEqual({ type: 'number', kind: 'int', value: 2, readonly: false });
+    expect(run('let x = 4; -x')).toMatchObject({ type: 'number', value: -4 });
+    expect(run('2-1')).toEqual({ type: 'number', kind: 'int', value: 1, readonly: false });
+    expect(run('-2 ** 2')).toMatchObject({ type: 'number', value: -4 });
+    expect(run('(-2) ** 2')).toMatchObject({ type: 'number', value: 4 });
+    expect(run('- -3')).toMatchObject({ type: 'number', value: 3 });
+    expect(run('+7 * -1')).toMatchObject({ type: 'number', value: -7 });
+    expect(run('~5')).toMatchObject({ type: 'number', value: -6 });
+  });
+
+  test('it should reject unary operators on invalid operands', () => {
+    expect(() => run('-null')).toThrow();
+    expect(() => run('~1.5')).toThrow();
+  });
+
+  test('it should evaluate string literals', () => {
+    expect(run('"hello"')).toMatchObject({ type: 'string', value: 'hello' });
+    expect(run('\'single "quoted"\'')).toMatchObject({ type: 'string', value: 'single "quoted"' });
+    expect(run('""')).toMatchObject({ type: 'string', value: '' });
+  });
+
+  test('it should decode escape sequences', () => {
+    expect(run('"a\\nb\\tc"')).toMatchObject({ type: 'string', value: 'a\nb\tc' });
+    expect(run('"say \\"hi\\" \\\\ bye"')).toMatchObject({ type: 'string', value: 'say "hi" \\ bye' });
+    expect(run('"\\u{1F600} \\u00e9"')).toMatchObject({ type: 'string', value: '\u{1F600} \u00e9' });
+    expect(() => run('"\\q"')).toThrow('Invalid escape sequence');
+    expect(() => run('"unterminated')).toThrow('Unterminated string literal');
+  });
+
+  test('it should concatenate and compare strings', () => {
+    expect(run('let name = "world"; "hello, " + name')).toMatchObject({ type: 'string', value: 'hello, world' });
+    expect(run('"abc" < "abd"')).toMatchObject({ type: 'boolean', value: true });
+    expect(run('"abc" == \'abc\'')).toMatchObject({ type: 'boolean', value: true });
+    expect(run('if "" { 1 } else { 2 }')).toEqual({ type: 'number', kind: 'int', value: 2, readonly: false });
+    expect(() => run('"a" - "b"')).toThrow();
+  });
+
+  test('it should interpolate template literals', () => {
+    expect(run('let x = 3; `x = ${x}, x² = ${x ** 2}`')).toMatchObject({ type: 'string', value: 'x = 3, x² = 9' });
+    expect(run('``')).toMatchObject({ type: 'string', value: '' });
+    expect(run('`${1}${2}`')).toMatchObject({ type: 'string', value: '12' });
+    expect(run('`a\\`b\\${c}`')).toMatchObject({ type: 'string', value: 'a`b${c}' });
+  });
+
+  test('it should nest templates and brackets inside interpolations', () => {
+    expect(run('let f = (x) => { return `<${x}>`; }; `[${f(`${1 + 1}`)}]`')).toMatchObject({ type: 'string', value: '[<2>]' });
+  });
+
+  test('it should reject unterminated template literals', () => {
+    expect(() => run('`abc')).toThrow('Unterminated template literal');
+    expect(() => run('`abc ${1 + 1')).toThrow('Unterminated template literal');
+  });
+
+  test('it should evaluate array literals', () => {
+    expect(runtimeValueToString(run('[1, 2 + 3, "a", [true, null],]'))).toBe('[1, 5, "a", [true, [null]]]');
+    expect(run('[]')).toMatchObject({ type: 'array', elements: [] });
+  });
+
+  test('it should read and write array elements', () => {
+    expect(run('let a = [1, 2, 3]; a[1]')).toEqual({ type: 'number', kind: 'int', value: 2, readonly: false });
+    expect(run('let a = [[1, 2], [3, 4]]; a[1][0]')).toEqual({ type: 'number', kind: 'int', value: 3, readonly: false });
+    expect(run('let a = [1, 2, 3]; a[0] = 10; a[0] + a[2]')).toEqual({ type: 'number', kind: 'int', value: 13, readonly: false });
+    expect(run('let a = []; a[0] = 1; a[1] = 2; a.length')).toMatchObject({ type: 'number', value: 2 });
+  });
+
+  test('it should reject invalid array indices', () => {
+    expect(() => run('let a = [1]; a[-1]')).toThrow('Negative array index');
+    expect(() => run('let a = [1]; a[1]')).toThrow('out of bounds');
+    expect(() => run('let a = [1]; a[3] = 1')).toThrow('out of bounds');
+    expect(() => run('let a = [1]; a[0.5]')).toThrow('integer');
+  });
+
+  test('it should iterate over arrays', () => {
+    const source = 'let a = [1, 2, 3, 4]; let s = 0; for (let i = 0; i < a.length; i = i + 1) { s = s + a[i]; } s';
+    expect(run(source)).toEqual({ type: 'number', kind: 'int', value: 10, readonly: false });
+  });
+
+  test('it should read object properties', () => {
+    expect(run('let o = { x: 1, y: { z: 2 } }; o.x + o.y.z')).toEqual({ type: 'number', kind: 'int', value: 3, readonly: false });
+    expect(run('let o = { x: 1 }; let k = "x"; o[k]')).toEqual({ type: 'number', kind: 'int', value: 1, readonly: false });
+    expect(run('let o = { x: 1 }; o.missing')).toMatchObject({ type: 'null' });
+    expect(() => run('let n = 1; n.x')).toThrow('Cannot read properties');
+  });
+
+  test('it should assign object properties', () => {
+    expect(run('let o = { x: 1 }; o.x = 5; o["y"] = 2; o.x + o.y')).toEqual({ type: 'number', kind: 'int', value: 7, readonly: false });
+    expect(run('let o = { list: [1, 2] }; o.list[1] = 5; o.list[1]')).toEqual({ type: 'number', kind: 'int', value: 5, readonly: false });
+    expect(() => run('math.x = 1')).toThrow('readonly object');
+  });
+
+  test('it should call methods with their receiver as `this`', () => {
+    const source = 'let counter = { n: 0, inc: func () { this.n = this.n + 1; return this; } }; counter.inc().inc(); counter.n';
+    expect(run(source)).toEqual({ type: 'number', kind: 'int', value: 2, readonly: false });
+    expect(run('let o = { f: (x) => x * 2 }; o.f(21)')).toEqual({ type: 'number', kind: 'int', value: 42, readonly: false });
+    expect(run('let o = { fs: [(x) => x + 1] }; o.fs[0](1)')).toEqual({ type: 'number', kind: 'int', value: 2, readonly: false });
+  });
+
+  test('it should expose the math constants as readonly numbers', () => {
+    expect(run('math.PI')).toMatchObject({ type: 'number', value: Math.PI, readonly: true });
+    expect(run('math.E')).toMatchObject({ type: 'number', value: Math.E });
+    expect(() => run('math.PI = 3')).toThrow('readonly object');
+  });
+
+  test('it should call the native math functions', () => {
+    expect(run('math.sqrt(16)')).toMatchObject({ type: 'number', value: 4 });
+    expect(run('math.clamp(15, 0, 10)')).toMatchObject({ type: 'number', value: 10 });
+    expect(run('math.max(1, 7, 3)')).toMatchObject({ type: 'number', value: 7 });
+    expect(run('math.isPrime(7)')).toMatchObject({ type: 'boolean', value: true });
+    expect(run('math.factorial(5)')).toMatchObject({ type: 'number', value: 120 });
+    expect(run('math.fibonacciBinet(10)')).toMatchObject({ type: 'number', value: 55 });
+    expect(run('math.root(27, 3)')).toMatchObject({ type: 'number', value: 3 });
+    expect(runtimeValueToString(run('math.softmax([0, 0])'))).toBe('[0.5, 0.5]');
+  });
+
+  test('it should pass script functions to the native math functions', () => {
+    expect(run('math.getFunctionValues((x) => x * x, 0, 2, 2).max')).toMatchObject({ type: 'number', value: 4 });
+  });
+
+  test('it should validate the arguments of the native math functions', () => {
+    expect(() => run('math.sqrt()')).toThrow('math.sqrt() expects 1 argument, but got 0');
+    expect(() => run('math.clamp(1, 2)')).toThrow('math.clamp() expects 3 arguments, but got 2');
+    expect(() => run('math.sqrt("4")')).toThrow('Argument 1 of math.sqrt() must be a number, but got string');
+    expect(() => run('math.softmax([1, "a"])')).toThrow('must be an array of numbers');
+    expect(() => run('math.factorial(-1)')).toThrow('negative number');
+  });
+
+  test('it should construct host objects and read their properties', () => {
+    expect(run('let v = math.Vector(1, 2, 3); v.x + v.y + v.z')).toMatchObject({ type: 'number', value: 6 });
+    expect(run('math.Vector(3, 4, 0).magnitude()')).toMatchObject({ type: 'number', value: 5 });
+    expect(run('math.Vector(1, 2, 3).dot(math.Vector(4, 5, 6))')).toMatchObject({ type: 'number', value: 32 });
+    expect(runtimeValueToString(run('math.Vector(1, 2, 3)'))).toBe('Vector(1, 2, 3)');
+    expect(() => run('math.Vector(1, 2, 3).w')).toThrow();
+  });
+
+  test('it should apply the operators of host objects', () => {
+    expect(runtimeValueToString(run('math.Vector(1, 2, 3) + math.Vector(1, 1, 1)'))).toBe('Vector(2, 3, 4)');
+    expect(runtimeValueToString(run('math.Vector(1, 2, 3) - math.Vector(1, 1, 1)'))).toBe('Vector(0, 1, 2)');
+    expect(runtimeValueToString(run('math.Vector(1, 2, 3) * 2'))).toBe('Vector(2, 4, 6)');
+    expect(runtimeValueToString(run('2 * math.Vector2D(1, 2)'))).toBe('Vector2D(2, 4)');
+  });
+
+  test('it should call the static methods of host classes', () => {
+    expect(runtimeValueToString(run('math.Point.fromVector(math.Vector(1, 2, 0))'))).toBe('Point(1, 2)');
+    expect(runtimeValueToString(run('math.Point.fromVector(math.Vector2D(3, 4))'))).toBe('Point(3, 4)');
+    expect(() => run('math.Point.fromVector(1)')).toThrow('must be a Vector or a Vector2D, but got number');
+  });
+
+  test('it should reject mutations of frozen host objects', () => {
+    expect(() => run('let v = math.Vector(1, 2, 3); v.x = 5')).toThrow('read-only');
+    expect(() => run('let v = math.Vector(1, 2, 3); v.freeze(); v.x = 5')).toThrow('frozen Vector');
+    expect(() => run('let v = math.Vector(1, 2, 3); v.freeze(); v.add(v)')).toThrow('freezed vector');
+    expect(run('let v = math.Vector(1, 2, 3); v.freeze(); v.isFreezed')).toMatchObject({ type: 'boolean', value: true });
+  });
+
+  test('it should throw a TypeError when no operator handler matches', () => {
+    expect(() => run('1 + "a"')).toThrow('Operator \'+\' is not supported between number and string');
+    expect(() => run('"a" * 2')).toThrow('between string and number');
+    expect(() => run('null - 1')).toThrow('between null and number');
+    expect(() => run('math.Vector(1, 2, 3) / 2')).toThrow('between Vector and number');
+    expect(() => run('[1] + [2]')).toThrow(expect.objectContaining({ name: 'TypeError' }));
+    expect(run('[1] == [1]')).toMatchObject({ type: 'boolean', value: false });
+    expect(run('null == null')).toMatchObject({ type: 'boolean', value: true });
+  });
+
+  test('it should dispatch operators to the well-known methods of objects', () => {
+    const complex = `
+      func complex(re, im) {
+        return {
+          re: re,
+          im: im,
+          __add: func (other) { return complex(this.re + other.re, this.im + other.im); },
+          __mul: func (other) { return complex(this.re * other.re - this.im * other.im, this.re * other.im + this.im * other.re); },
+          __eq: func (other) { return this.re == other.re && this.im == other.im; },
+          __lt: func (other) { return this.re < other.re; },
+        };
+      }
+    `;
+
+    expect(run(`${complex} let c = complex(1, 2) + complex(3, 4); c.re * 10 + c.im`)).toMatchObject({ value: 46 });
+    expect(run(`${complex} let c = complex(0, 1) * complex(0, 1); c.re`)).toMatchObject({ value: -1 });
+    expect(run(`${complex} complex(1, 2) == complex(1, 2)`)).toMatchObject({ type: 'boolean', value: true });
+    expect(run(`${complex} complex(1, 2) != complex(1, 2)`)).toMatchObject({ type: 'boolean', value: false });
+    expect(run(`${complex} complex(1, 0) < complex(2, 0)`)).toMatchObject({ value: true });
+    expect(run(`${complex} complex(1, 0) > complex(2, 0)`)).toMatchObject({ value: false });
+    expect(run(`${complex} complex(2, 0) >= complex(2, 0)`)).toMatchObject({ value: true });
+    expect(() => run(`${complex} complex(1, 2) - complex(1, 2)`)).toThrow('between object and object');
+  });
+
+  test('it should accept operator handlers keyed by value type', () => {
+    defineOperatorHandler('array', concatenateArrays);
+
+    expect(runtimeValueToString(run('[1, 2] + [3]'))).toBe('[1, 2, 3]');
+    expect(run('["a"] + [["b"]]')).toMatchObject({ type: 'array', elements: [{ value: 'a' }, { type: 'array', elements: [{ value: 'b' }] }] });
+    expect(() => run('[1] - [2]')).toThrow('between array and array');
+
+    removeOperatorHandler('array', concatenateArrays);
+    expect(() => run('[1, 2] + [3]')).toThrow('between array and array');
+  });
+
+  test('it should evaluate standalone blocks in their own scope', () => {
+    expect(run('let a = 1; { let a = 2; a = a + 1; } a')).toEqual({ type: 'number', kind: 'int', value: 1, readonly: false });
+    expect(run('let a = 1; { a = 5; } a')).toEqual({ type: 'number', kind: 'int', value: 5, readonly: false });
+    expect(run('{ let a = 1; { let a = 2; } a }')).toEqual({ type: 'number', kind: 'int', value: 1, readonly: false });
+    expect(run('{ 1; 2 }')).toEqual({ type: 'number', kind: 'int', value: 2, readonly: false });
+    expect(run('{}')).toMatchObject({ type: 'null' });
+    expect(() => run('{ let b = 1; } b')).toThrow('Undefined variable \'b\'');
+    expect(() => run('{ let a = 1; let a = 2; }')).toThrow('Cannot redeclare variable \'a\'');
+    expect(() => run('func f(a) { let a = 2; } f(1)')).toThrow('Cannot redeclare variable \'a\'');
+  });
+
+  test('it should still parse object literals in statement position', () => {
+    expect(run('{ a: 1, b: 2 }')).toMatchObject({ type: 'object' });
+    expect(run('let a = 1; let b = 2; { a, b }')).toMatchObject({ type: 'object' });
+  });
+
+  test('it should catch values thrown by scripts', () => {
+    expect(run('try { throw "boom"; } catch (e) { e }')).toMatchObject({ type: 'string', value: 'boom' });
+    expect(run('let x = 0; try { throw 1; x = 1; } catch { x = 2; } x')).toMatchObject({ value: 2 });
+    expect(run('try { 1 } catch (e) { 2 }')).toMatchObject({ value: 1 });
+    expect(run('func f() { throw Error("deep"); } try { f(); } catch (e) { e.message }')).toMatchObject({ value: 'deep' });
+    expect(run('try { throw Error("bad", "ValueError"); } catch (e) { e.kind }')).toMatchObject({ value: 'ValueError' });
+    expect(run('try { throw Error("x"); } catch (e) { e.kind }')).toMatchObject({ value: 'Error' });
+    expect(run('try {\n  throw Error("x");\n} catch (e) { e.line }')).toMatchObject({ value: 2 });
+    expect(run('try {\n  throw Error("x");\n} catch (e) { e.column }')).toMatchObject({ value: 3 });
+    expect(runtimeValueToString(run('Error("oops", "ValueError")'))).toBe('ValueError: oops');
+  });
+
+  test('it should allow variables named after object prototype members', () => {
+    expect(run('let toString = 1; let constructor = 2; let valueOf = 3; toString + constructor + valueOf'))
+      .toEqual({ type: 'number', kind: 'int', value: 6, readonly: false });
+  });
+
+  test('it should catch the errors raised by the interpreter with their kind', () => {
+    expect(run('try { undefinedVariable } catch (e) { e.message }')).toMatchObject({ value: 'Undefined variable \'undefinedVariable\'' });
+    expect(run('const c = 1; try { c = 2; } catch (e) { e.message }')).toMatchObject({ value: 'Cannot assign constant variable \'c\'' });
+    expect(run('try { 1 + "a" } catch (e) { e.kind }')).toMatchObject({ value: 'TypeError' });
+    expect(run('try { let n = 1; n(); } catch (e) { e.kind }')).toMatchObject({ value: 'TypeError' });
+    expect(run('try { undefinedVariable } catch (e) { e.kind }')).toMatchObject({ value: 'ReferenceError' });
+    expect(run('const c = 1; try { c = 2; } catch (e) { e.kind }')).toMatchObject({ value: 'TypeError' });
+    expect(run('try { math.sqrt() } catch (e) { e.message }')).toMatchObject({ value: 'math.sqrt() expects 1 argument, but got 0' });
+    expect(run('try { math.sqrt() } catch (e) { e.kind }')).toMatchObject({ value: 'TypeError' });
+  });
+
+  test('it should record where the errors raised by the interpreter happened', () => {
+    expect(run('try { x } catch (e) { e.line }')).toMatchObject({ value: 1 });
+    expect(run('try { x } catch (e) { e.column }')).toMatchObject({ value: 7 });
+    expect(run('let n = 1;\ntry {\n  n(2);\n} catch (e) { [e.line, e.column] }')).toMatchObject({ elements: [{ value: 3 }, { value: 3 }] });
+    expect(run('const c = 1;\ntry { c = 2; } catch (e) { [e.line, e.column] }')).toMatchObject({ elements: [{ value: 2 }, { value: 7 }] });
+    expect(run('func f() { return missing; }\ntry { f() } catch (e) { e.column }')).toMatchObject({ value: 19 });
+
+    expect(() => run('let a = 1;\nb = 2;')).toThrow('Cannot assing to undefined variable \'b\' at line 2, column 1');
+    expect(() => run('let a = 1;\nb = 2;')).toThrow(expect.objectContaining({ name: 'ReferenceError', line: 2, column: 1 }));
+  });
+
+  test('it should always run the finally block', () => {
+    expect(run('let log = ""; try { log = log + "t"; } finally { log = log + "f"; } log')).toMatchObject({ value: 'tf' });
+    expect(run('let log = ""; try { throw 1; } catch { log = log + "c"; } finally { log = log + "f"; } log')).toMatchObject({ value: 'cf' });
+    expect(run('let log = ""; func f() { try { return 1; } finally { log = "f"; } } f(); log')).toMatchObject({ value: 'f' });
+    expect(run('let i = 0; while(true) { try { break; } finally { i = 5; } } i')).toMatchObject({ value: 5 });
+    expect(run('let log = ""; try { try { throw "1"; } finally { log = "f"; } } catch (e) { log = log + e; } log')).toMatchObject({ value: 'f1' });
+  });
+
+  test('it should surface uncaught errors to the host', () => {
+    expect(() => run('throw Error("boom")')).toThrow(UncaughtError);
+    expect(() => run('throw Error("boom")')).toThrow('Uncaught Error: boom');
+    expect(() => run('try { throw 1; } catch (e) { throw e + 1; }')).toThrow('Uncaught 2');
+  });
+
+  test('it should reject malformed try statements', () => {
+    expect(() => run('try { 1 }')).toThrow('Expected a `catch` or `finally` block after `try`');
+    expect(() => run('throw;')).toThrow('Expected an expression after `throw`');
+  });
+
+  test('it should keep constness on the binding rather than the value', () => {
+    expect(() => run('const c = 1; c = 2')).toThrow('Cannot assign constant variable \'c\'');
+    expect(run('const c = 1; let b = c; b = 2; b')).toMatchObject({ value: 2 });
+    expect(run('let x = true; x = false; x')).toMatchObject({ type: 'boolean', value: false });
+    expect(run('let p = math.PI; p = 3; p')).toMatchObject({ value: 3 });
+    expect(() => run('true = false')).toThrow('Cannot assign constant variable \'true\'');
+  });
+
+  test('it should follow IEEE 754 arithmetic by default', () => {
+    expect(run('1.0 / 0')).toMatchObject({ value: Infinity });
+    expect((run('0.0 / 0') as NumberValue).value).toBeNaN();
+    expect((run('1 % 0.0') as NumberValue).value).toBeNaN();
+    expect((run('math.sqrt(-1)') as NumberValue).value).toBeNaN();
+    expect(run('math.log(0)')).toMatchObject({ value: -Infinity });
+  });
+
+  test('it should raise arithmetic errors in strict numeric mode', () => {
+    const strict: EnvironmentOptions = { numericPolicy: 'strict' };
+
+    expect(() => run('1 / 0', strict)).toThrow('Division by zero at line 1, column 1');
+    expect(() => run('let a = 5;\nlet b = a % 0;', strict)).toThrow('Division by zero at line 2, column 9');
+    expect(() => run('10.0 ** 400', strict)).toThrow('10 ** 400 produced Infinity');
+    expect(() => run('math.sqrt(-1)', strict)).toThrow('math.sqrt(-1) produced NaN at line 1, column 1');
+    expect(() => run('let a = -1;\nlet b = 2 + math.sqrt(a);', strict)).toThrow(expect.objectContaining({ line: 2, column: 13 }));
+    expect(() => run('math.log(0)', strict)).toThrow('math.log(0) produced -Infinity');
+    expect(run('6 / 3', strict)).toMatchObject({ value: 2 });
+    expect(run('math.infinity - 1', strict)).toMatchObject({ value: Infinity });
+    expect(() => run('math.infinity * 0', strict)).toThrow('Infinity * 0 produced NaN');
+    expect(() => run('math.infinity - math.infinity', strict)).toThrow('produced NaN');
+    expect(run('math.infinity * 0')).toMatchObject({ value: NaN });
+    expect(run('2 ** 2000;', strict)).toMatchObject({ kind: 'int', value: 2n ** 2000n });
+    expect(run('math.factorial(200) > 0;', strict)).toMatchObject({ value: true });
+    expect(run('let n = 1; for(let i = 0; i < 40; i = i + 1) { n = n * 1000000007; } n > 0;', strict)).toMatchObject({ value: true });
+  });
+
+  test('it should let scripts catch arithmetic errors', () => {
+    const strict: EnvironmentOptions = { numericPolicy: 'strict' };
+
+    expect(run('try { 1 / 0 } catch (e) { e.kind }', strict)).toMatchObject({ value: 'ArithmeticError' });
+    expect(run('try {\n  let x = 2 * 3 / 0;\n} catch (e) { e.line }', strict)).toMatchObject({ value: 2 });
+    expect(run('try {\n  let x = 2 * 3 / 0;\n} catch (e) { e.column }', strict)).toMatchObject({ value: 11 });
+    expect(run('func f() { return 1 / 0; } try { f() } catch (e) { e.kind }', strict)).toMatchObject({ value: 'ArithmeticError' });
+  });
+
+  test('it should keep integers and floats apart', () => {
+    expect(run('7')).toEqual({ type: 'number', kind: 'int', value: 7, readonly: false });
+    expect(run('7.0')).toEqual({ type: 'number', kind: 'float', value: 7, readonly: false });
+    expect(run('7 / 2')).toMatchObject({ kind: 'int', value: 3 });
+    expect(run('-7 / 2')).toMatchObject({ kind: 'int', value: -3 });
+    expect(run('7.0 / 2')).toMatchObject({ kind: 'float', value: 3.5 });
+    expect(run('7 % 3')).toMatchObject({ kind: 'int', value: 1 });
+    expect(run('-7 % 3')).toMatchObject({ kind: 'int', value: -1 });
+    expect(run('7.5 % 2')).toMatchObject({ kind: 'float', value: 1.5 });
+    expect(run('2 ** 10')).toMatchObject({ kind: 'int', value: 1024 });
+    expect(run('2 ** -1')).toMatchObject({ kind: 'float', value: 0.5 });
+    expect(run('(-1) ** 100000000000')).toMatchObject({ kind: 'int', value: 1 });
+    expect(run('2 ** 999999')).toMatchObject({ kind: 'int' });
+    expect(() => run('2 ** 100000000000')).toThrow('2 ** 100000000000 is too large to compute exactly at line 1, column 1');
+    expect(run('try { 2 ** 100000000000 } catch (e) { e.kind }')).toMatchObject({ value: 'ArithmeticError' });
+    expect(run('2.0 ** 100000000000')).toMatchObject({ kind: 'float', value: Infinity });
+    expect(run('1 + 0.5')).toMatchObject({ kind: 'float', value: 1.5 });
+    expect(run('-3')).toMatchObject({ kind: 'int', value: -3 });
+    expect(run('1 == 1.0')).toMatchObject({ value: true });
+    expect(run('[1, 2].length')).toMatchObject({ kind: 'int', value: 2 });
+  });
+
+  test('it should always reject integer division by zero', () => {
+    expect(() => run('1 / 0')).toThrow('Division by zero');
+    expect(() => run('1 % 0')).toThrow('Division by zero');
+    expect(run('try { 1 / 0 } catch (e) { e.kind }')).toMatchObject({ value: 'ArithmeticError' });
+  });
+
+  test('it should promote large integers to bigint', () => {
+    expect(run('9007199254740991 + 2')).toMatchObject({ kind: 'int', value: 9007199254740993n });
+    expect(run('2 ** 64')).toMatchObject({ kind: 'int', value: 18446744073709551616n });
+    expect(run('2 ** 64 - 2 ** 64 + 1')).toMatchObject({ kind: 'int', value: 1 });
+    expect(run('123456789012345678901234567890')).toMatchObject({ value: 123456789012345678901234567890n });
+    expect(run('2 ** 64 > 2 ** 63')).toMatchObject({ value: true });
+    expect(run('2 ** 64 == 18446744073709551616')).toMatchObject({ value: true });
+    expect(run('-(2 ** 64)')).toMatchObject({ value: -18446744073709551616n });
+    expect(runtimeValueToString(run('2 ** 70'))).toBe('1180591620717411303424');
+    expect(run('math.factorial(25)')).toMatchObject({ kind: 'int', value: 15511210043330985984000000n });
+    expect(run('math.factorial(5)')).toMatchObject({ kind: 'int', value: 120 });
+  });
+
+  test('it should convert between integers and floats', () => {
+    expect(run('int(3.9)')).toMatchObject({ kind: 'int', value: 3 });
+    expect(run('int(-3.9)')).toMatchObject({ kind: 'int', value: -3 });
+    expect(run('int("42")')).toMatchObject({ kind: 'int', value: 42 });
+    expect(run('int("123456789012345678901234567890")')).toMatchObject({ value: 123456789012345678901234567890n });
+    expect(run('float(7) / 2')).toMatchObject({ kind: 'float', value: 3.5 });
+    expect(run('float("2.5")')).toMatchObject({ kind: 'float', value: 2.5 });
+    expect(() => run('int("4.2")')).toThrow('Cannot convert "4.2" to an integer');
+    expect(() => run('int(math.infinity)')).toThrow('Cannot convert Infinity to an integer');
+    expect(() => run('float("abc")')).toThrow('Cannot convert "abc" to a float');
+    expect(() => run('int(null)')).toThrow(expect.objectContaining({ name: 'TypeError' }));
+  });
+
+  test('it should evaluate the numeric literal forms', () => {
+    expect(run('0xFF')).toMatchObject({ kind: 'int', value: 255 });
+    expect(run('0b1010 + 0o17')).toMatchObject({ kind: 'int', value: 25 });
+    expect(run('1_000_000')).toMatchObject({ kind: 'int', value: 1000000 });
+    expect(run('1.5e-3')).toMatchObject({ kind: 'float', value: 0.0015 });
+    expect(run('0xFFFF_FFFF_FFFF_FFFF')).toMatchObject({ kind: 'int', value: 18446744073709551615n });
+  });
+
+  test('it should resolve Unicode and snake_case identifiers', () => {
+    expect(run('let θ = math.PI / 2; let max_iter = 10; let v2 = 3; max_iter + v2 + int(θ)')).toMatchObject({ value: 14 });
+    expect(run('let $total = 1; let 𝑥 = 2; $total + 𝑥')).toMatchObject({ value: 3 });
+  });
+});
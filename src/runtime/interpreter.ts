@@ -1,37 +1,194 @@
 import Environment from './env';
-import { Exception } from '../_internals/errors';
-import { MAKE_NULL, NativeFunctionValue, NumberValue, ObjectValue, RuntimeValue } from './values';
+import { enforceNumericPolicy } from './numeric';
+import { ArithmeticError, Exception, RuntimeError, RuntimeReferenceError, RuntimeTypeError } from '../_internals/errors';
+import type { SourceLocationPointer } from '../_internals/types';
+import { DiagnosticCode } from '../diagnostics/diagnostic';
+import {
+  ArrayValue,
+  ErrorValue,
+  FunctionValue,
+  HostValue,
+  isTruthy,
+  MAKE_ARRAY,
+  MAKE_BOOL,
+  MAKE_ERROR,
+  MAKE_FUNCTION,
+  MAKE_INT,
+  MAKE_NULL,
+  MAKE_NUMBER,
+  MAKE_STRING,
+  NativeFunctionValue,
+  numberOf,
+  NumberValue,
+  ObjectValue,
+  RuntimeValue,
+  runtimeValuesEqual,
+  runtimeValueToString,
+  StringValue,
+  ValueType,
+} from './values';
 
 import {
+  ArrayLiteral,
+  ArrowFunctionExpression,
   AssignmentExpression,
   BinaryExpression,
+  BlockStatement,
   CallExpression,
   DecimalLiteral,
+  DoWhileStatement,
+  Expression,
+  ForStatement,
+  FunctionDeclaration,
+  FunctionExpression,
   Identifier,
+  IfStatement,
   IntegerLiteral,
+  LogicalExpression,
+  MemberExpression,
   ObjectLiteral,
   Program,
+  ReturnStatement,
+  SourceSpan,
   Statement,
+  StringLiteral,
+  TemplateLiteral,
+  ThrowStatement,
+  TryStatement,
+  UnaryExpression,
   VariableDeclaration,
+  WhileStatement,
 } from '../parsing/ast';
 
 
+export type BinaryOperatorHandler = (leftHandSide: RuntimeValue, rightHandSide: RuntimeValue, env: Environment) => RuntimeValue;
+
+const customBinaryOperators: Map<string, BinaryOperatorHandler> = new Map();
+
+/**
+ * Defines the runtime behaviour of a custom infix operator registered
+ * in the parser with `registerInfixOperator`.
+ */
+export function defineBinaryOperator(symbol: string, handler: BinaryOperatorHandler): void {
+  if(customBinaryOperators.has(symbol)) {
+    throw new Exception(`The binary operator \`${symbol}\` is already defined`);
+  }
+
+  customBinaryOperators.set(symbol, handler);
+}
+
+/**
+ * Removes the runtime behaviour defined for a custom infix operator, if any.
+ */
+export function undefineBinaryOperator(symbol: string): void {
+  customBinaryOperators.delete(symbol);
+}
+
+
+/**
+ * Handles a binary operator for the operands it knows about and returns
+ * `undefined` to let the next handler try.
+ */
+export type OperatorHandler = (operator: string, leftHandSide: RuntimeValue, rightHandSide: RuntimeValue, env: Environment) => RuntimeValue | undefined;
+
+const operatorHandlers: Map<ValueType, OperatorHandler[]> = new Map();
+
+/**
+ * Registers an operator handler for the values of the given type. The handlers
+ * of the left operand's type are tried first, then those of the right operand's type.
+ */
+export function defineOperatorHandler(type: ValueType, handler: OperatorHandler): void {
+  const handlers = operatorHandlers.get(type) ?? [];
+  handlers.push(handler);
+
+  operatorHandlers.set(type, handlers);
+}
+
+/**
+ * Removes an operator handler registered with `defineOperatorHandler`, if it is.
+ */
+export function removeOperatorHandler(type: ValueType, handler: OperatorHandler): void {
+  const handlers = operatorHandlers.get(type) ?? [];
+  const index = handlers.indexOf(handler);
+
+  if(index >= 0) {
+    handlers.splice(index, 1);
+  }
+}
+
+// Well-known methods an object can define to overload an operator
+const operatorMethods: { readonly [operator: string]: string } = {
+  '+': '__add',
+  '-': '__sub',
+  '*': '__mul',
+  '/': '__div',
+  '%': '__mod',
+  '**': '__pow',
+  '==': '__eq',
+  '<': '__lt',
+};
+
+// The largest integer a power may produce, far below the bigint limit of the host
+const maxIntegerPowerBits = 1_000_000;
+
+defineOperatorHandler('number', _evalNumericExpr);
+defineOperatorHandler('string', _evalStringExpr);
+defineOperatorHandler('object', _evalObjectExpr);
+defineOperatorHandler('host', _evalHostExpr);
+
+
+class BreakSignal { }
+
+class ContinueSignal { }
+
+class ReturnSignal {
+  constructor(public readonly value: RuntimeValue) { }
+}
+
+/**
+ * Carries a value thrown with `throw` up to the nearest `catch`,
+ * or out of `evaluate` when the script doesn't catch it.
+ */
+export class UncaughtError extends Exception {
+  public readonly name = 'UncaughtError' as const;
+
+  constructor(public readonly value: RuntimeValue) {
+    super(`Uncaught ${runtimeValueToString(value)}`);
+  }
+}
+
+
 export function evaluate(node: Statement, env: Environment): RuntimeValue {
+  try {
+    return _evaluateNode(node, env);
+  } catch (err: unknown) {
+    // The innermost node being evaluated is where an error raised without a location happened
+    if(err instanceof RuntimeError) {
+      err.locate(node.span);
+    }
+
+    throw err;
+  }
+}
+
+function _evaluateNode(node: Statement, env: Environment): RuntimeValue {
   switch(node.kind) {
     case 'IntegerLiteral':
-      return {
-        type: 'number',
-        value: (node as IntegerLiteral).value,
-      } as NumberValue;
+      return MAKE_INT((node as IntegerLiteral).value);
     case 'DecimalLiteral':
-      return {
-        type: 'number',
-        value: (node as DecimalLiteral).value,
-      } as NumberValue;
+      return MAKE_NUMBER((node as DecimalLiteral).value);
+    case 'StringLiteral':
+      return MAKE_STRING((node as StringLiteral).value);
+    case 'TemplateLiteral':
+      return _evalTemplate(node as TemplateLiteral, env);
     case 'NullLiteral':
       return MAKE_NULL();
     case 'BinaryExpression':
       return _evalBinaryExpr(node as BinaryExpression, env);
+    case 'LogicalExpression':
+      return _evalLogicalExpr(node as LogicalExpression, env);
+    case 'UnaryExpression':
+      return _evalUnaryExpr(node as UnaryExpression, env);
     case 'Identifier':
       return _evalIdent(node as Identifier, env);
     case 'VariableDeclaration':
@@ -40,8 +197,40 @@ export function evaluate(node: Statement, env: Environment): RuntimeValue {
       return _evalAssignment(node as AssignmentExpression, env);
     case 'ObjectLiteral':
       return _evalObject(node as ObjectLiteral, env);
+    case 'ArrayLiteral':
+      return MAKE_ARRAY((node as ArrayLiteral).elements.map(e => evaluate(e, env)));
+    case 'MemberExpression':
+      return _evalMember(node as MemberExpression, env);
     case 'CallExpression':
       return _evalCall(node as CallExpression, env);
+    case 'BlockStatement':
+      return _evalBlock(node as BlockStatement, env);
+    case 'IfStatement':
+      return _evalIf(node as IfStatement, env);
+    case 'WhileStatement':
+      return _evalWhile(node as WhileStatement, env);
+    case 'DoWhileStatement':
+      return _evalDoWhile(node as DoWhileStatement, env);
+    case 'ForStatement':
+      return _evalFor(node as ForStatement, env);
+    case 'BreakStatement':
+      throw new BreakSignal();
+    case 'ContinueStatement':
+      throw new ContinueSignal();
+    case 'FunctionDeclaration':
+      return _evalFunctionDeclaration(node as FunctionDeclaration, env);
+    case 'FunctionExpression':
+      return _evalFunctionExpression(node as FunctionExpression, env);
+    case 'ArrowFunctionExpression':
+      return _evalArrowFunction(node as ArrowFunctionExpression, env);
+    case 'ReturnStatement':
+      throw new ReturnSignal((node as ReturnStatement).value ?
+        evaluate((node as ReturnStatement).value!, env) :
+        MAKE_NULL());
+    case 'ThrowStatement':
+      return _evalThrow(node as ThrowStatement, env);
+    case 'TryStatement':
+      return _evalTry(node as TryStatement, env);
     case 'Program':
       return _evalProgram(node as Program, env);
     default:
@@ -49,43 +238,258 @@ export function evaluate(node: Statement, env: Environment): RuntimeValue {
   }
 }
 
+function _evalTemplate(t: TemplateLiteral, env: Environment): RuntimeValue {
+  let output = t.quasis[0];
+
+  for(let i = 0; i < t.expressions.length; i++) {
+    output += runtimeValueToString(evaluate(t.expressions[i], env)) + t.quasis[i + 1];
+  }
+
+  return MAKE_STRING(output);
+}
+
 function _evalBinaryExpr(o: BinaryExpression, env: Environment): RuntimeValue {
   const lhs = evaluate(o.left, env);
   const rhs = evaluate(o.right, env);
 
-  if(lhs.type === 'number' && rhs.type === 'number') return _evalNumericExpr(lhs as NumberValue, rhs as NumberValue, o.operator);
-  return MAKE_NULL();
+  const custom = customBinaryOperators.get(o.operator);
+  if(custom) return custom(lhs, rhs, env);
+
+  const numeric = lhs.type === 'number' && rhs.type === 'number';
+
+  // Integer division by zero has no IEEE 754 result to fall back to
+  if(numeric && (o.operator === '/' || o.operator === '%') && numberOf(rhs as NumberValue) === 0 &&
+    (env.options.numericPolicy === 'strict' || ((lhs as NumberValue).kind === 'int' && (rhs as NumberValue).kind === 'int'))) {
+    throw new ArithmeticError('Division by zero', o.span, { code: DiagnosticCode.DivisionByZero });
+  }
+
+  const types = new Set([lhs.type, rhs.type]);
+
+  for(const type of types) {
+    for(const handler of operatorHandlers.get(type) ?? []) {
+      const result = handler(o.operator, lhs, rhs, env);
+      if(!result) continue;
+
+      // Integer results are exact bigints when large, so only floats can overflow or be `NaN`
+      if(numeric && result.type === 'number' && (result as NumberValue).kind !== 'int') {
+        const [l, r] = [numberOf(lhs as NumberValue), numberOf(rhs as NumberValue)];
+        enforceNumericPolicy(numberOf(result as NumberValue), [l, r], () => `${l} ${o.operator} ${r}`, env, o.span);
+      }
+
+      return result;
+    }
+  }
+
+  if(o.operator === '==') return MAKE_BOOL(runtimeValuesEqual(lhs, rhs));
+  if(o.operator === '!=') return MAKE_BOOL(!runtimeValuesEqual(lhs, rhs));
+
+  throw new RuntimeTypeError(`Operator '${o.operator}' is not supported between ${_describeType(lhs)} and ${_describeType(rhs)}`);
+}
+
+function _describeType(value: RuntimeValue): string {
+  return value.type === 'host' ? (value as HostValue).descriptor.name : value.type;
 }
 
-function _evalNumericExpr(leftHandSide: NumberValue, rightHandSide: NumberValue, operator: string): RuntimeValue {
+function _evalHostExpr(operator: string, lhs: RuntimeValue, rhs: RuntimeValue): RuntimeValue | undefined {
+  const descriptors = [lhs, rhs]
+    .filter(value => value.type === 'host')
+    .map(value => (value as HostValue).descriptor);
+
+  for(const descriptor of new Set(descriptors)) {
+    const result = descriptor.operate(operator, lhs, rhs);
+    if(result) return result;
+  }
+
+  return undefined;
+}
+
+/**
+ * Dispatches an operator to the well-known method of the object on the left.
+ * `>`, `<=` and `>=` are derived from `__lt` and `!=` from `__eq`.
+ */
+function _evalObjectExpr(operator: string, lhs: RuntimeValue, rhs: RuntimeValue, env: Environment): RuntimeValue | undefined {
+  const negate = (value: RuntimeValue | undefined) => value ? MAKE_BOOL(!isTruthy(value)) : undefined;
+
+  switch(operator) {
+    case '>':
+      return _callOperatorMethod(rhs, '__lt', lhs, env);
+    case '<=':
+      return negate(_callOperatorMethod(rhs, '__lt', lhs, env));
+    case '>=':
+      return negate(_callOperatorMethod(lhs, '__lt', rhs, env));
+    case '!=':
+      return negate(_callOperatorMethod(lhs, '__eq', rhs, env));
+    default:
+      return operatorMethods[operator] ? _callOperatorMethod(lhs, operatorMethods[operator], rhs, env) : undefined;
+  }
+}
+
+function _callOperatorMethod(self: RuntimeValue, name: string, operand: RuntimeValue, env: Environment): RuntimeValue | undefined {
+  if(self.type !== 'object') return undefined;
+
+  const method = (self as ObjectValue).properties.get(name);
+  if(!method) return undefined;
+
+  return invoke(method, [operand], env, self);
+}
+
+/**
+ * Integers stay exact and `/` and `%` truncate towards zero. As soon
+ * as one of the operands is a float, the operation is done on floats.
+ */
+function _evalNumericExpr(operator: string, leftHandSide: RuntimeValue, rightHandSide: RuntimeValue): RuntimeValue | undefined {
+  if(leftHandSide.type !== 'number' || rightHandSide.type !== 'number') return undefined;
+
+  if((leftHandSide as NumberValue).kind === 'int' && (rightHandSide as NumberValue).kind === 'int') {
+    return _evalIntegerExpr(operator, (leftHandSide as NumberValue).value, (rightHandSide as NumberValue).value);
+  }
+
+  const lhs = numberOf(leftHandSide as NumberValue);
+  const rhs = numberOf(rightHandSide as NumberValue);
+
   let result: number = 0;
 
   switch(operator) {
     case '+':
-      result = leftHandSide.value + rightHandSide.value;
+      result = lhs + rhs;
       break;
     case '-':
-      result = leftHandSide.value - rightHandSide.value;
+      result = lhs - rhs;
       break;
     case '*':
-      result = leftHandSide.value * rightHandSide.value;
+      result = lhs * rhs;
       break;
     case '/':
-      // TODO: division by zero check
-      result = leftHandSide.value / rightHandSide.value;
+      result = lhs / rhs;
       break;
     case '%':
-      // TODO: division by zero check
-      result = leftHandSide.value % rightHandSide.value;
+      result = lhs % rhs;
       break;
     case '**':
-      result = leftHandSide.value ** rightHandSide.value;
+      result = lhs ** rhs;
       break;
+    case '<':
+      return MAKE_BOOL(lhs < rhs);
+    case '<=':
+      return MAKE_BOOL(lhs <= rhs);
+    case '>':
+      return MAKE_BOOL(lhs > rhs);
+    case '>=':
+      return MAKE_BOOL(lhs >= rhs);
+    default:
+      return undefined;
+  }
+
+  return MAKE_NUMBER(result);
+}
+
+function _evalIntegerExpr(operator: string, leftHandSide: number | bigint, rightHandSide: number | bigint): RuntimeValue | undefined {
+  const lhs = BigInt(leftHandSide);
+  const rhs = BigInt(rightHandSide);
+
+  switch(operator) {
+    case '+':
+      return MAKE_INT(lhs + rhs);
+    case '-':
+      return MAKE_INT(lhs - rhs);
+    case '*':
+      return MAKE_INT(lhs * rhs);
+    case '/':
+      return MAKE_INT(lhs / rhs);
+    case '%':
+      return MAKE_INT(lhs % rhs);
+    case '**':
+      // A negative exponent has no integer result
+      if(rhs < 0) return MAKE_NUMBER(Number(lhs) ** Number(rhs));
+      return MAKE_INT(_integerPower(lhs, rhs));
+    case '<':
+      return MAKE_BOOL(lhs < rhs);
+    case '<=':
+      return MAKE_BOOL(lhs <= rhs);
+    case '>':
+      return MAKE_BOOL(lhs > rhs);
+    case '>=':
+      return MAKE_BOOL(lhs >= rhs);
+    default:
+      return undefined;
+  }
+}
+
+function _integerPower(base: bigint, exponent: bigint): bigint {
+  const magnitude = base < 0 ? -base : base;
+
+  // The result has about as many bits as the base times the exponent, unless the base is 0 or 1
+  if(magnitude > 1n && BigInt(magnitude.toString(2).length - 1) * exponent > maxIntegerPowerBits) {
+    throw new ArithmeticError(`${base} ** ${exponent} is too large to compute exactly`, undefined, {
+      code: DiagnosticCode.IntegerOverflow,
+      notes: [`Integer powers are limited to ${maxIntegerPowerBits} bits, use a float base for an approximation`],
+    });
+  }
+
+  return base ** exponent;
+}
+
+function _evalStringExpr(operator: string, leftHandSide: RuntimeValue, rightHandSide: RuntimeValue): RuntimeValue | undefined {
+  if(leftHandSide.type !== 'string' || rightHandSide.type !== 'string') return undefined;
+
+  const lhs = (leftHandSide as StringValue).value;
+  const rhs = (rightHandSide as StringValue).value;
+
+  switch(operator) {
+    case '+':
+      return MAKE_STRING(lhs + rhs);
+    case '<':
+      return MAKE_BOOL(lhs < rhs);
+    case '<=':
+      return MAKE_BOOL(lhs <= rhs);
+    case '>':
+      return MAKE_BOOL(lhs > rhs);
+    case '>=':
+      return MAKE_BOOL(lhs >= rhs);
     default:
-      throw new Exception(`Unknown operator: ${operator}`);
+      return undefined;
   }
+}
+
+function _evalLogicalExpr(o: LogicalExpression, env: Environment): RuntimeValue {
+  const lhs = isTruthy(evaluate(o.left, env));
+
+  // Short-circuit: the right-hand side is only evaluated when it can change the result
+  if(o.operator === '&&' && !lhs) return MAKE_BOOL(false);
+  if(o.operator === '||' && lhs) return MAKE_BOOL(true);
+
+  return MAKE_BOOL(isTruthy(evaluate(o.right, env)));
+}
+
+function _evalUnaryExpr(o: UnaryExpression, env: Environment): RuntimeValue {
+  const argument = evaluate(o.argument, env);
+
+  switch(o.operator) {
+    case '!':
+      return MAKE_BOOL(!isTruthy(argument));
+    case '-':
+    case '+':
+    case '~': {
+      if(argument.type !== 'number') {
+        throw new RuntimeTypeError(`Cannot apply unary operator '${o.operator}' to a value of type '${argument.type}'`);
+      }
+
+      const { kind, value } = argument as NumberValue;
+
+      if(kind === 'float') {
+        if(o.operator === '~') {
+          throw new RuntimeTypeError(`Cannot apply unary operator '~' to the non-integer value ${value}`);
+        }
 
-  return { type: 'number', value: result } as NumberValue;
+        return MAKE_NUMBER(o.operator === '-' ? -(value as number) : value as number);
+      }
+
+      const n = BigInt(value);
+      return MAKE_INT(o.operator === '-' ? -n : o.operator === '~' ? ~n : n);
+    }
+    default:
+      throw new RuntimeError(`Unknown unary operator: ${o.operator}`);
+  }
 }
 
 function _evalProgram(p: Program, env: Environment): RuntimeValue {
@@ -98,24 +502,281 @@ function _evalProgram(p: Program, env: Environment): RuntimeValue {
   return lo;
 }
 
+function _evalBlock(block: BlockStatement, env: Environment): RuntimeValue {
+  const scope = new Environment(env);
+  let lo: RuntimeValue = MAKE_NULL();
+
+  for(const statement of block.body) {
+    lo = evaluate(statement, scope);
+  }
+
+  return lo;
+}
+
+function _evalIf(node: IfStatement, env: Environment): RuntimeValue {
+  if(isTruthy(evaluate(node.test, env))) return _evalBlock(node.consequent, env);
+  if(!node.alternate) return MAKE_NULL();
+
+  return evaluate(node.alternate, env);
+}
+
+/**
+ * Runs a single iteration of a loop body and returns `false`
+ * when the iteration was interrupted by a `break` statement.
+ */
+function _evalLoopIteration(body: BlockStatement, env: Environment): boolean {
+  try {
+    _evalBlock(body, env);
+  } catch (err: any) {
+    if(err instanceof BreakSignal) return false;
+    if(!(err instanceof ContinueSignal)) throw err;
+  }
+
+  return true;
+}
+
+function _evalWhile(node: WhileStatement, env: Environment): RuntimeValue {
+  while(isTruthy(evaluate(node.test, env))) {
+    if(!_evalLoopIteration(node.body, env)) break;
+  }
+
+  return MAKE_NULL();
+}
+
+function _evalDoWhile(node: DoWhileStatement, env: Environment): RuntimeValue {
+  do {
+    if(!_evalLoopIteration(node.body, env)) break;
+  } while(isTruthy(evaluate(node.test, env)));
+
+  return MAKE_NULL();
+}
+
+function _evalFor(node: ForStatement, env: Environment): RuntimeValue {
+  const scope = new Environment(env);
+
+  if(node.init) {
+    evaluate(node.init, scope);
+  }
+
+  while(!node.test || isTruthy(evaluate(node.test, scope))) {
+    if(!_evalLoopIteration(node.body, scope)) break;
+
+    if(node.update) {
+      evaluate(node.update, scope);
+    }
+  }
+
+  return MAKE_NULL();
+}
+
+function _evalThrow(node: ThrowStatement, env: Environment): never {
+  const value = evaluate(node.argument, env);
+
+  if(value.type === 'error' && !(value as ErrorValue).location) {
+    (value as ErrorValue).location = _locationOf(node.span);
+  }
+
+  throw new UncaughtError(value);
+}
+
+function _evalTry(node: TryStatement, env: Environment): RuntimeValue {
+  try {
+    return _evalBlock(node.block, env);
+  } catch (err: any) {
+    if(!node.handler || !_isCatchable(err)) throw err;
+
+    const scope = new Environment(env);
+
+    if(node.handler.parameter) {
+      scope.declare(node.handler.parameter, _toErrorValue(err));
+    }
+
+    return _evalBlock(node.handler.body, scope);
+  } finally {
+    if(node.finalizer) {
+      _evalBlock(node.finalizer, env);
+    }
+  }
+}
+
+// Control flow signals and host failures (e.g. a stack overflow) are not script errors
+function _isCatchable(err: unknown): boolean {
+  return err instanceof Exception;
+}
+
+function _locationOf(span: SourceSpan): SourceLocationPointer {
+  return {
+    line: span.start.line,
+    column: span.start.column,
+    position: span.start.offset,
+    filename: span.filename,
+  };
+}
+
+function _toErrorValue(err: Exception): RuntimeValue {
+  if(err instanceof UncaughtError) return err.value;
+
+  // The location is exposed through `line` and `column`, not repeated in the message
+  const message = err instanceof RuntimeError ? err.diagnostic.message : err.message;
+
+  const location = typeof err.line === 'number' && typeof err.column === 'number' ?
+    { line: err.line, column: err.column, position: err.position, filename: err.filename } :
+    undefined;
+
+  return MAKE_ERROR(message, err.name, location);
+}
+
 function _evalIdent(ident: Identifier, env: Environment): RuntimeValue {
   return env.lookup(ident.symbol);
 }
 
 function _evalDeclaration(v: VariableDeclaration, env: Environment): RuntimeValue {
   const value = v.value ? evaluate(v.value, env) : MAKE_NULL(v.constant);
-  return env.declare(v.varname, value);
+  return env.declare(v.varname, value, v.constant);
 }
 
 function _evalAssignment(node: AssignmentExpression, env: Environment): RuntimeValue {
+  if(node.target.kind === 'MemberExpression') return _evalMemberAssignment(node.target as MemberExpression, node.value, env);
+
   if(node.target.kind !== 'Identifier') {
-    throw new Exception(`The target of an assignment must be an identifier, but got ${node.target.kind}`);
+    throw new RuntimeError(`The target of an assignment must be an identifier, but got ${node.target.kind}`);
   }
 
   return env.assign((node.target as Identifier).symbol,
     evaluate(node.value, env));
 }
 
+function _evalMember(expr: MemberExpression, env: Environment): RuntimeValue {
+  return _getMember(evaluate(expr.object, env), expr, env);
+}
+
+function _getMember(o: RuntimeValue, expr: MemberExpression, env: Environment): RuntimeValue {
+  if(o.type === 'array') {
+    const arr = o as ArrayValue;
+
+    if(!expr.computed && (expr.property as Identifier).symbol === 'length') return MAKE_INT(arr.elements.length);
+    return arr.elements[_evalArrayIndex(expr, arr, env)];
+  }
+
+  if(o.type === 'object') return (o as ObjectValue).properties.get(_evalPropertyKey(expr, env)) ?? MAKE_NULL();
+
+  if(o.type === 'host') {
+    const key = _evalPropertyKey(expr, env);
+    const { descriptor, instance } = o as HostValue;
+
+    const value = descriptor.getMember(instance, key);
+
+    if(!value) {
+      throw new RuntimeReferenceError(`Unknown property '${key}' of ${descriptor.name}`);
+    }
+
+    return value;
+  }
+
+  if(o.type === 'error') {
+    const key = _evalPropertyKey(expr, env);
+    const { message, kind, location } = o as ErrorValue;
+
+    switch(key) {
+      case 'message':
+        return MAKE_STRING(message);
+      case 'kind':
+        return MAKE_STRING(kind);
+      case 'line':
+        return location ? MAKE_INT(location.line) : MAKE_NULL();
+      case 'column':
+        return location ? MAKE_INT(location.column) : MAKE_NULL();
+      default:
+        throw new RuntimeReferenceError(`Unknown property '${key}' of error`);
+    }
+  }
+
+  if(o.type === 'native_function' && (o as NativeFunctionValue).properties) return (o as NativeFunctionValue).properties!.get(_evalPropertyKey(expr, env)) ?? MAKE_NULL();
+
+  throw new RuntimeTypeError(`Cannot read properties of a value of type '${o.type}'`);
+}
+
+function _evalMemberAssignment(target: MemberExpression, valueExpr: Expression, env: Environment): RuntimeValue {
+  const o = evaluate(target.object, env);
+
+  if(o.type === 'array') {
+    const arr = o as ArrayValue;
+
+    if(arr.readonly) {
+      throw new RuntimeTypeError('Cannot assign to an element of a readonly array');
+    }
+
+    const index = _evalArrayIndex(target, arr, env, true);
+    return (arr.elements[index] = evaluate(valueExpr, env));
+  }
+
+  if(o.type === 'object') {
+    const key = _evalPropertyKey(target, env);
+
+    if(o.readonly) {
+      throw new RuntimeTypeError(`Cannot assign to property '${key}' of a readonly object`);
+    }
+
+    const value = evaluate(valueExpr, env);
+    (o as ObjectValue).properties.set(key, value);
+
+    return value;
+  }
+
+  if(o.type === 'host') {
+    const key = _evalPropertyKey(target, env);
+    const { descriptor, instance } = o as HostValue;
+
+    if(descriptor.isFrozen(instance)) {
+      throw new RuntimeTypeError(`Cannot assign to property '${key}' of a frozen ${descriptor.name}`);
+    }
+
+    throw new RuntimeTypeError(`Cannot assign to property '${key}' of ${descriptor.name} because it is read-only`);
+  }
+
+  throw new RuntimeTypeError(`Cannot assign properties of a value of type '${o.type}'`);
+}
+
+function _evalPropertyKey(expr: MemberExpression, env: Environment): string {
+  if(!expr.computed) return (expr.property as Identifier).symbol;
+
+  const key = evaluate(expr.property, env);
+
+  if(key.type === 'string') return (key as StringValue).value;
+  if(key.type === 'number') return String((key as NumberValue).value);
+
+  throw new RuntimeTypeError(`Cannot use a value of type '${key.type}' as a property key`);
+}
+
+/**
+ * Resolves the index of a computed member expression over an array. When
+ * `forWrite` is set the index right after the last element is also accepted,
+ * so that assigning to it appends a new element.
+ */
+function _evalArrayIndex(expr: MemberExpression, arr: ArrayValue, env: Environment, forWrite: boolean = false): number {
+  if(!expr.computed) {
+    throw new RuntimeReferenceError(`Unknown array property '${(expr.property as Identifier).symbol}'`);
+  }
+
+  const index = evaluate(expr.property, env);
+
+  if(index.type !== 'number' || !Number.isInteger(numberOf(index as NumberValue))) {
+    throw new RuntimeTypeError('Array index must be an integer number');
+  }
+
+  const i = numberOf(index as NumberValue);
+
+  if(i < 0) {
+    throw new RuntimeError(`Negative array index ${i} is not allowed`);
+  }
+
+  if(i > arr.elements.length || (i === arr.elements.length && !forWrite)) {
+    throw new RuntimeError(`Array index ${i} is out of bounds for an array of length ${arr.elements.length}`);
+  }
+
+  return i;
+}
+
 function _evalObject(obj: ObjectLiteral, env: Environment): RuntimeValue {
   const o = {
     type: 'object',
@@ -134,20 +795,88 @@ function _evalObject(obj: ObjectLiteral, env: Environment): RuntimeValue {
   return o;
 }
 
+function _evalFunctionDeclaration(node: FunctionDeclaration, env: Environment): RuntimeValue {
+  return env.declare(node.name,
+    MAKE_FUNCTION(node.name, node.parameters, node.body, env));
+}
+
+function _evalFunctionExpression(node: FunctionExpression, env: Environment): RuntimeValue {
+  if(!node.name) return MAKE_FUNCTION('', node.parameters, node.body, env);
+
+  // A named function expression can refer to itself, but its name is not visible outside
+  const scope = new Environment(env);
+  return scope.declare(node.name, MAKE_FUNCTION(node.name, node.parameters, node.body, scope));
+}
+
+function _evalArrowFunction(node: ArrowFunctionExpression, env: Environment): RuntimeValue {
+  const body: BlockStatement = node.body.kind === 'BlockStatement' ?
+    node.body as BlockStatement :
+    {
+      kind: 'BlockStatement',
+      body: [{ kind: 'ReturnStatement', value: node.body, span: node.body.span } as ReturnStatement],
+      span: node.body.span,
+    };
+
+  return MAKE_FUNCTION('', node.parameters, body, env);
+}
+
 function _evalCall(expr: CallExpression, env: Environment): RuntimeValue {
   const args = expr.arguments.map(arg => evaluate(arg, env));
 
-  if(expr.caller.kind !== 'Identifier') {
-    throw new Exception(`The caller of a call expression must be an identifier, but got ${expr.caller.kind}`);
+  let receiver: RuntimeValue | undefined;
+  let f: RuntimeValue;
+
+  // Methods are invoked with the object they were read from as `this`
+  if(expr.caller.kind === 'MemberExpression') {
+    receiver = evaluate((expr.caller as MemberExpression).object, env);
+    f = _getMember(receiver, expr.caller as MemberExpression, env);
+  } else {
+    f = evaluate(expr.caller, env);
   }
 
-  const f = evaluate(expr.caller, env) as NativeFunctionValue;
-  
-  if(f.type !== 'native_function') {
-    throw new Exception(`Failed to invoke handler \`${(expr.caller as Identifier).symbol}\``);
+  if(f.type !== 'native_function' && f.type !== 'function' && expr.caller.kind === 'Identifier') {
+    throw new RuntimeTypeError(`Failed to invoke handler \`${(expr.caller as Identifier).symbol}\``);
   }
 
-  return f.invokableHandler(env, ...args);
+  return invoke(f, args, env, receiver);
+}
+
+/**
+ * Invokes a native or user-defined function value, which allows native
+ * handlers to call back into functions received from scripts.
+ */
+export function invoke(f: RuntimeValue, args: RuntimeValue[], env: Environment, receiver?: RuntimeValue): RuntimeValue {
+  if(f.type === 'native_function') return (f as NativeFunctionValue).invokableHandler.call(receiver, env, ...args);
+  if(f.type === 'function') return _invokeFunction(f as FunctionValue, args, receiver);
+
+  throw new RuntimeTypeError(`Cannot invoke a value of type '${f.type}'`);
+}
+
+function _invokeFunction(f: FunctionValue, args: RuntimeValue[], receiver?: RuntimeValue): RuntimeValue {
+  if(args.length !== f.parameters.length) {
+    throw new RuntimeTypeError(`Function '${f.name || 'anonymous'}' expects ${f.parameters.length} argument${f.parameters.length === 1 ? '' : 's'}, but got ${args.length}`);
+  }
+
+  const scope = new Environment(f.closure);
+
+  if(receiver) {
+    scope.declare('this', receiver);
+  }
+
+  for(let i = 0; i < f.parameters.length; i++) {
+    scope.declare(f.parameters[i], args[i]);
+  }
+
+  try {
+    for(const statement of f.body.body) {
+      evaluate(statement, scope);
+    }
+  } catch (err: any) {
+    if(!(err instanceof ReturnSignal)) throw err;
+    return err.value;
+  }
+
+  return MAKE_NULL();
 }
 
 
@@ -0,0 +1,31 @@
+import Environment from './env';
+import { ArithmeticError } from '../_internals/errors';
+import type { SourceSpan } from '../parsing/ast';
+import { DiagnosticCode } from '../diagnostics/diagnostic';
+
+
+/**
+ * Applies the numeric policy of `env` to the result of an arithmetic operation.
+ * In strict mode producing `NaN`, or an infinity from finite operands, raises an `ArithmeticError`.
+ *
+ * @param result - The result of the operation.
+ * @param operands - The numeric operands the result was computed from.
+ * @param describe - Describes the operation in the error message, e.g. `2 ** 1024` or `math.sqrt(-1)`.
+ * @param env - The environment the operation is evaluated in.
+ * @param span - Where the operation is in the source, if known.
+ * @returns The result, unchanged.
+ */
+export function enforceNumericPolicy(
+  result: number,
+  operands: readonly number[],
+  describe: () => string,
+  env: Environment,
+  span?: SourceSpan // eslint-disable-line comma-dangle
+): number {
+  if(env.options.numericPolicy !== 'strict' || Number.isFinite(result)) return result;
+
+  // An infinite operand carries over to the result, but nothing makes `NaN` a sensible one
+  if(!Number.isNaN(result) && !operands.every(Number.isFinite)) return result;
+
+  throw new ArithmeticError(`${describe()} produced ${result}`, span, { code: DiagnosticCode.NonFiniteResult });
+}
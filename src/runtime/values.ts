@@ -1,4 +1,7 @@
 import Environment from './env';
+import { Exception } from '../_internals/errors';
+import type { BlockStatement } from '../parsing/ast';
+import type { SourceLocationPointer } from '../_internals/types';
 
 export type ValueType =
   | 'null'
@@ -7,7 +10,11 @@ export type ValueType =
   | 'string'
   | 'symbol'
   | 'object'
-  | 'native_function';
+  | 'array'
+  | 'function'
+  | 'native_function'
+  | 'host'
+  | 'error';
 
 
 export interface RuntimeValue {
@@ -20,9 +27,15 @@ export interface NullValue extends RuntimeValue {
   value: null;
 }
 
+/**
+ * Integers are exact: they're held as a `bigint` once they leave the safe integer range.
+ */
+export type NumberKind = 'int' | 'float';
+
 export interface NumberValue extends RuntimeValue {
   type: 'number';
-  value: number;
+  kind: NumberKind;
+  value: number | bigint;
 }
 
 export interface BooleanValue extends RuntimeValue {
@@ -40,17 +53,60 @@ export interface ObjectValue extends RuntimeValue {
   properties: Map<string, RuntimeValue>;
 }
 
+export interface ArrayValue extends RuntimeValue {
+  type: 'array';
+  elements: RuntimeValue[];
+}
+
 export interface SymbolValue extends RuntimeValue {
   type: 'symbol';
   symbol: symbol;
 }
 
 
-export type FunctionCall = (env: Environment, ...args: RuntimeValue[]) => RuntimeValue;
+export type FunctionCall = (this: RuntimeValue | undefined, env: Environment, ...args: RuntimeValue[]) => RuntimeValue;
 
 export interface NativeFunctionValue extends RuntimeValue {
   type: 'native_function';
   invokableHandler: FunctionCall;
+  properties?: Map<string, RuntimeValue>;
+}
+
+
+/**
+ * Describes how scripts interact with instances of a host (TypeScript) class.
+ */
+export interface HostDescriptor {
+  readonly name: string;
+  getMember(instance: object, key: string): RuntimeValue | undefined;
+  isFrozen(instance: object): boolean;
+  operate(operator: string, leftHandSide: RuntimeValue, rightHandSide: RuntimeValue): RuntimeValue | undefined;
+  format(instance: object): string;
+}
+
+export interface HostValue extends RuntimeValue {
+  type: 'host';
+  instance: object;
+  descriptor: HostDescriptor;
+}
+
+/**
+ * An error raised by a script with `throw` or by the interpreter itself.
+ * The kind is the name of the error, e.g. `TypeError`.
+ */
+export interface ErrorValue extends RuntimeValue {
+  type: 'error';
+  message: string;
+  kind: string;
+  location?: SourceLocationPointer;
+}
+
+export interface FunctionValue extends RuntimeValue {
+  type: 'function';
+  name: string;
+  parameters: string[];
+  body: BlockStatement;
+  closure: Environment;
 }
 
 
@@ -64,6 +120,12 @@ export function runtimeValueToString(message: RuntimeValue): string {
     case 'native_function':
       output = `func ${(message as NativeFunctionValue).invokableHandler.name ?? 'anonymous'}() { [native code] }`;
       break;
+    case 'function':
+      output = `func ${(message as FunctionValue).name || 'anonymous'}(${(message as FunctionValue).parameters.join(', ')}) { [code] }`;
+      break;
+    case 'host':
+      output = (message as HostValue).descriptor.format((message as HostValue).instance);
+      break;
     case 'null':
       output = '[null]';
       break;
@@ -73,12 +135,20 @@ export function runtimeValueToString(message: RuntimeValue): string {
     case 'object':
       output = JSON.stringify((message as ObjectValue).properties.entries(), null, 2);
       break;
+    case 'array':
+      output = `[${(message as ArrayValue).elements.map(item => {
+        return item.type === 'string' ? JSON.stringify((item as StringValue).value) : runtimeValueToString(item);
+      }).join(', ')}]`;
+      break;
     case 'string':
       output = (message as StringValue).value;
       break;
     case 'symbol':
       output = `[Symbol ${String((message as SymbolValue).symbol)}]`;
       break;
+    case 'error':
+      output = `${(message as ErrorValue).kind}: ${(message as ErrorValue).message}`;
+      break;
     default:
       output = String(message);
   }
@@ -87,14 +157,79 @@ export function runtimeValueToString(message: RuntimeValue): string {
 }
 
 
+export function isTruthy(value: RuntimeValue): boolean {
+  switch(value.type) {
+    case 'null':
+      return false;
+    case 'boolean':
+      return (value as BooleanValue).value;
+    case 'number': {
+      const n = (value as NumberValue).value;
+      return typeof n === 'bigint' || (n !== 0 && !Number.isNaN(n));
+    }
+    case 'string':
+      return (value as StringValue).value.length > 0;
+    default:
+      return true;
+  }
+}
+
+export function runtimeValuesEqual(a: RuntimeValue, b: RuntimeValue): boolean {
+  if(a.type !== b.type) return false;
+
+  switch(a.type) {
+    case 'null':
+      return true;
+    case 'number':
+      // Compares an integer held as a bigint with a float by value
+      return (a as NumberValue).value == (b as NumberValue).value;
+    case 'boolean':
+    case 'string':
+      return (a as BooleanValue | StringValue).value === (b as BooleanValue | StringValue).value;
+    case 'symbol':
+      return (a as SymbolValue).symbol === (b as SymbolValue).symbol;
+    case 'host':
+      return (a as HostValue).instance === (b as HostValue).instance;
+    default:
+      return a === b;
+  }
+}
+
+
+/**
+ * Returns the value of a number as a float, rounding integers beyond the safe range.
+ */
+export function numberOf(value: NumberValue): number {
+  return Number(value.value);
+}
+
 export function MAKE_NUMBER(value: number = 0, readonly: boolean = false): NumberValue {
   return {
     type: 'number',
+    kind: 'float',
     readonly,
     value,
   };
 }
 
+export function MAKE_INT(value: number | bigint = 0, readonly: boolean = false): NumberValue {
+  if(typeof value === 'number' && !Number.isInteger(value)) {
+    throw new Exception(`Cannot make an integer out of the non-integer value ${value}`);
+  }
+
+  // Safe integers are kept as plain numbers, everything else is exact as a bigint
+  const n = typeof value === 'bigint' ?
+    value :
+    Number.isSafeInteger(value) ? value : BigInt(value);
+
+  return {
+    type: 'number',
+    kind: 'int',
+    readonly,
+    value: typeof n === 'bigint' && n >= Number.MIN_SAFE_INTEGER && n <= Number.MAX_SAFE_INTEGER ? Number(n) : n,
+  };
+}
+
 export function MAKE_NULL(readonly: boolean = false): NullValue {
   return {
     type: 'null',
@@ -119,6 +254,14 @@ export function MAKE_STRING(value: string = '', readonly: boolean = false): Stri
   };
 }
 
+export function MAKE_ARRAY(elements: RuntimeValue[] = [], readonly: boolean = false): ArrayValue {
+  return {
+    type: 'array',
+    readonly,
+    elements,
+  };
+}
+
 export function MAKE_NATIVE_METHOD(invokableHandler: FunctionCall, readonly: boolean = false): NativeFunctionValue {
   return {
     type: 'native_function',
@@ -126,3 +269,39 @@ export function MAKE_NATIVE_METHOD(invokableHandler: FunctionCall, readonly: boo
     invokableHandler,
   };
 }
+
+export function MAKE_FUNCTION(
+  name: string,
+  parameters: string[],
+  body: BlockStatement,
+  closure: Environment,
+  readonly: boolean = false // eslint-disable-line comma-dangle
+): FunctionValue {
+  return {
+    type: 'function',
+    readonly,
+    name,
+    parameters,
+    body,
+    closure,
+  };
+}
+
+export function MAKE_HOST(instance: object, descriptor: HostDescriptor, readonly: boolean = false): HostValue {
+  return {
+    type: 'host',
+    readonly,
+    instance,
+    descriptor,
+  };
+}
+
+export function MAKE_ERROR(message: string, kind: string = 'Error', location?: SourceLocationPointer, readonly: boolean = false): ErrorValue {
+  return {
+    type: 'error',
+    readonly,
+    message,
+    kind,
+    location,
+  };
+}